@@ -1,11 +1,23 @@
 
-import React, { useState, useEffect } from 'react';
-import { GameScene, InputMode, GameTheme, PlayerAvatar, GameDifficulty, LeaderboardEntry } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { GameScene, InputMode, GameTheme, PlayerAvatar, GameDifficulty, LeaderboardEntry, DailyChallenge, ReplayLog, RunRecording, RuleSet, LevelScript, EffectsIntensity, CustomDifficulty, AdaptiveAdjustment, AdaptiveSession, PlayMode, Pilot, VersusResult, TrackingConfig, FrameSourceSpec } from './types';
 import StartMenu from './components/StartMenu';
 import HowToPlay from './components/HowToPlay';
 import GameWorld from './components/GameWorld';
+import VersusWorld from './components/VersusWorld';
 import GameOver from './components/GameOver';
 import Leaderboard from './components/Leaderboard';
+import ReplayViewer from './components/ReplayViewer';
+import LevelEditor, { createBlankLevel } from './components/LevelEditor';
+import Benchmark from './components/Benchmark';
+import CalibrationWizard from './components/CalibrationWizard';
+import DevTools from './components/DevTools';
+import { getDailyChallenge } from './components/DailyChallenge';
+import { createSeed, FIXED_STEP_MS } from './components/GameSimulation';
+import { REPLAY_VERSION, isReplayCompatible, getGhostKey } from './components/Replay';
+import { CAMPAIGN } from './components/LevelScripts';
+import { CAMERA_SOURCE } from './components/FrameSources';
+import { DEFAULT_HAND_LOST_MS, sanitizeCustomDifficulty, sanitizeTrackingConfig } from './components/GameConfig';
 
 const AVATARS: PlayerAvatar[] = [
   { id: 'aero', name: 'Aero', emoji: '🧑‍🚀', color: '#60a5fa' },
@@ -14,51 +26,327 @@ const AVATARS: PlayerAvatar[] = [
   { id: 'leaf', name: 'Leaf', emoji: '🧚', color: '#4ade80' }
 ];
 
+const MAX_SAVED_REPLAYS = 10;
+const MAX_GHOSTS = 7;
+const MAX_ADAPTIVE_SESSIONS = 20;
+
+// Endless free-play, each daily seed and each campaign level keep separate boards
+// Custom-tuned runs never share a board with the standard difficulties, nor co-op teams with solo pilots,
+// and each rule set scores on its own board
+const boardKey = (e: Pick<LeaderboardEntry, 'seed' | 'levelId' | 'customPreset' | 'partnerName' | 'ruleSet'>) =>
+  `${e.seed ?? ''}:${e.levelId ?? ''}:${e.ruleSet ?? RuleSet.HAZARDS_ONLY}${e.customPreset !== undefined ? ':custom' : ''}${e.partnerName !== undefined ? ':team' : ''}`;
+
 const App: React.FC = () => {
   const [currentScene, setCurrentScene] = useState<GameScene>(GameScene.START_MENU);
   const [inputMode, setInputMode] = useState<InputMode>(InputMode.CURSOR);
   const [theme, setTheme] = useState<GameTheme>(GameTheme.COSMIC);
   const [difficulty, setDifficulty] = useState<GameDifficulty>(GameDifficulty.MEDIUM);
+  const [customDifficulty, setCustomDifficulty] = useState<CustomDifficulty>(() => {
+    const saved = localStorage.getItem('visionGravity_customDifficulty');
+    return sanitizeCustomDifficulty(saved ? JSON.parse(saved) : null);
+  });
+  const [difficultyPresets, setDifficultyPresets] = useState<CustomDifficulty[]>(() => {
+    const saved = localStorage.getItem('visionGravity_difficultyPresets');
+    return saved ? (JSON.parse(saved) as CustomDifficulty[]).map(sanitizeCustomDifficulty) : [];
+  });
+  const [ruleSet, setRuleSet] = useState<RuleSet>(RuleSet.HAZARDS_ONLY);
+  const [effectsIntensity, setEffectsIntensity] = useState<EffectsIntensity>(
+    () => (localStorage.getItem('visionGravity_effects') as EffectsIntensity | null) ?? EffectsIntensity.FULL
+  );
+  const [adaptive, setAdaptive] = useState(() => localStorage.getItem('visionGravity_adaptive') === 'true');
+  const [adaptiveSessions, setAdaptiveSessions] = useState<AdaptiveSession[]>(() => {
+    const saved = localStorage.getItem('visionGravity_adaptiveSessions');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [handLostTimeoutMs, setHandLostTimeoutMs] = useState<number>(() => {
+    const saved = localStorage.getItem('visionGravity_handLostTimeout');
+    return saved !== null ? Number(saved) : DEFAULT_HAND_LOST_MS;
+  });
+  // localStorage never leaves this browser, so each machine and its camera keep their own calibration
+  const [trackingConfig, setTrackingConfig] = useState<TrackingConfig>(() => {
+    const saved = localStorage.getItem('visionGravity_tracking');
+    return sanitizeTrackingConfig(saved ? JSON.parse(saved) : null);
+  });
+  const [calibrationSkipped, setCalibrationSkipped] = useState(false);
+  const [afterCalibration, setAfterCalibration] = useState<GameScene>(GameScene.START_MENU);
+  // Developer override for the tracker's input; files can't be persisted, so this lasts until reload
+  const [frameSource, setFrameSource] = useState<FrameSourceSpec>(CAMERA_SOURCE);
+  const [levelId, setLevelId] = useState<string | null>(null);
   const [selectedAvatar, setSelectedAvatar] = useState<PlayerAvatar>(AVATARS[0]);
   const [pilotName, setPilotName] = useState('PILOT_01');
+  const [playMode, setPlayMode] = useState<PlayMode>(PlayMode.SOLO);
+  const [rivalAvatar, setRivalAvatar] = useState<PlayerAvatar>(AVATARS[1]);
+  const [rivalName, setRivalName] = useState('PILOT_02');
+  const [lastVersus, setLastVersus] = useState<VersusResult | null>(null);
   const [lastScore, setLastScore] = useState(0);
+  const [lastCleared, setLastCleared] = useState(false);
+  const [lastAdaptiveLog, setLastAdaptiveLog] = useState<AdaptiveAdjustment[] | null>(null);
+  const [activeChallenge, setActiveChallenge] = useState<DailyChallenge | null>(null);
+  const [runSeed, setRunSeed] = useState(createSeed);
+  const [dailyChallenge, setDailyChallenge] = useState(getDailyChallenge);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [editorLevel, setEditorLevel] = useState<LevelScript>(() => {
+    const saved = localStorage.getItem('visionGravity_levelDraft');
+    return saved ? JSON.parse(saved) : createBlankLevel();
+  });
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_levelDraft', JSON.stringify(editorLevel));
+  }, [editorLevel]);
+
+  // The menu and daily board roll over to the new date on the next scene change
+  useEffect(() => {
+    const today = getDailyChallenge();
+    setDailyChallenge(current => current.dateKey === today.dateKey ? current : today);
+  }, [currentScene]);
+
+  // Challenges and editor previews are always solo; versus matches are endless
+  const isVersus = playMode === PlayMode.VERSUS && !activeChallenge && !isPreviewing;
+  const isCoop = playMode === PlayMode.COOP && !activeChallenge && !isPreviewing;
+  const runPlayMode = isVersus ? PlayMode.VERSUS : isCoop ? PlayMode.COOP : PlayMode.SOLO;
+  // A daily challenge locks the environment so every pilot faces the same run
+  const runLevel = isPreviewing ? editorLevel
+    : activeChallenge || isVersus ? undefined
+    : CAMPAIGN.find(l => l.id === levelId);
+  const runTheme = activeChallenge?.theme ?? runLevel?.theme ?? theme;
+  const runDifficulty = activeChallenge?.difficulty ?? difficulty;
+  // Memoized: a fresh object would rebuild the run's settings and restart it
+  const runCustomDifficulty = useMemo(
+    () => runDifficulty === GameDifficulty.CUSTOM ? sanitizeCustomDifficulty(customDifficulty) : undefined,
+    [runDifficulty, customDifficulty]
+  );
+  // Seeded challenges and scripted levels keep their fixed pacing
+  const runAdaptive = adaptive && !activeChallenge && !runLevel && !isVersus;
+  const runRuleSet = activeChallenge?.ruleSet ?? ruleSet;
+  // Memoized: a fresh array would restart the match
+  const versusPilots = useMemo<[Pilot, Pilot]>(() => [
+    { name: pilotName || 'PLAYER 1', avatar: selectedAvatar },
+    { name: rivalName || 'PLAYER 2', avatar: rivalAvatar }
+  ], [pilotName, selectedAvatar, rivalName, rivalAvatar]);
+  const runPartner = isCoop ? versusPilots[1] : undefined;
   
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>(() => {
     const saved = localStorage.getItem('visionGravity_leaderboard');
     return saved ? JSON.parse(saved) : [];
   });
 
-  const highScore = leaderboard.length > 0 ? Math.max(...leaderboard.map(e => e.score)) : 0;
+  const activeBoardKey = boardKey({ seed: activeChallenge?.seed, levelId: runLevel?.id, customPreset: runCustomDifficulty?.name, partnerName: runPartner?.name, ruleSet: runRuleSet });
+  const activeBoard = leaderboard.filter(e => boardKey(e) === activeBoardKey);
+  const highScore = activeBoard.length > 0 ? Math.max(...activeBoard.map(e => e.score)) : 0;
 
   useEffect(() => {
     localStorage.setItem('visionGravity_leaderboard', JSON.stringify(leaderboard));
   }, [leaderboard]);
 
-  const handleGameOver = (score: number) => {
+  useEffect(() => {
+    localStorage.setItem('visionGravity_effects', effectsIntensity);
+  }, [effectsIntensity]);
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_customDifficulty', JSON.stringify(customDifficulty));
+  }, [customDifficulty]);
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_difficultyPresets', JSON.stringify(difficultyPresets));
+  }, [difficultyPresets]);
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_adaptive', String(adaptive));
+  }, [adaptive]);
+
+  // Controller history of recent adaptive runs, kept for therapists and players to review
+  useEffect(() => {
+    localStorage.setItem('visionGravity_adaptiveSessions', JSON.stringify(adaptiveSessions));
+  }, [adaptiveSessions]);
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_handLostTimeout', String(handLostTimeoutMs));
+  }, [handLostTimeoutMs]);
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_tracking', JSON.stringify(trackingConfig));
+  }, [trackingConfig]);
+
+  const [lastReplay, setLastReplay] = useState<ReplayLog | null>(null);
+  const [viewingReplay, setViewingReplay] = useState<ReplayLog | null>(null);
+  const [savedReplays, setSavedReplays] = useState<ReplayLog[]>(() => {
+    const saved = localStorage.getItem('visionGravity_replays');
+    return saved ? (JSON.parse(saved) as ReplayLog[]).filter(isReplayCompatible) : [];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_replays', JSON.stringify(savedReplays));
+  }, [savedReplays]);
+
+  // Personal-best runs per seeded challenge, raced as a ghost paddle
+  const [ghosts, setGhosts] = useState<ReplayLog[]>(() => {
+    const saved = localStorage.getItem('visionGravity_ghosts');
+    return saved ? (JSON.parse(saved) as ReplayLog[]).filter(isReplayCompatible) : [];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('visionGravity_ghosts', JSON.stringify(ghosts));
+  }, [ghosts]);
+
+  const activeGhost = activeChallenge
+    ? ghosts.find(g => getGhostKey(g) === getGhostKey(activeChallenge)) ?? null
+    : null;
+
+  const handleCloseEditorPreview = () => {
+    setIsPreviewing(false);
+    setCurrentScene(GameScene.LEVEL_EDITOR);
+  };
+
+  const handleGameOver = (score: number, { adaptiveLog, ...recording }: RunRecording, isCleared: boolean) => {
+    // Editor previews are test flights: no records, straight back to the forge
+    if (isPreviewing) {
+      handleCloseEditorPreview();
+      return;
+    }
+    setLastVersus(null);
     setLastScore(score);
+    setLastCleared(isCleared);
+    setLastAdaptiveLog(adaptiveLog ?? null);
     const newEntry: LeaderboardEntry = {
       id: Math.random().toString(36).substr(2, 9),
       pilotName: pilotName || 'ANONYMOUS',
       avatarId: selectedAvatar.id,
       score: Math.floor(score),
-      theme,
-      difficulty,
-      date: Date.now()
+      theme: runTheme,
+      difficulty: runDifficulty,
+      date: Date.now(),
+      seed: activeChallenge?.seed,
+      ruleSet: runRuleSet,
+      levelId: runLevel?.id,
+      customPreset: runCustomDifficulty?.name,
+      adaptive: runAdaptive || undefined,
+      partnerName: runPartner?.name,
+      partnerAvatarId: runPartner?.avatar.id
     };
+
+    if (adaptiveLog) {
+      const session: AdaptiveSession = {
+        id: newEntry.id,
+        date: newEntry.date,
+        pilotName: newEntry.pilotName,
+        theme: runTheme,
+        score: newEntry.score,
+        durationMs: recording.ticks * FIXED_STEP_MS,
+        adjustments: adaptiveLog
+      };
+      setAdaptiveSessions(prev => [session, ...prev].slice(0, MAX_ADAPTIVE_SESSIONS));
+    }
     
-    setLeaderboard(prev => [...prev, newEntry]
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10)
-    );
+    setLeaderboard(prev => {
+      const board = [...prev.filter(e => boardKey(e) === boardKey(newEntry)), newEntry]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10);
+      return [...prev.filter(e => boardKey(e) !== boardKey(newEntry)), ...board];
+    });
+
+    const replay: ReplayLog = {
+      ...recording,
+      id: newEntry.id,
+      version: REPLAY_VERSION,
+      theme: runTheme,
+      difficulty: runDifficulty,
+      ruleSet: runRuleSet,
+      level: runLevel,
+      customDifficulty: runCustomDifficulty,
+      adaptive: runAdaptive || undefined,
+      coop: isCoop || undefined,
+      avatarId: selectedAvatar.id,
+      pilotName: newEntry.pilotName,
+      partnerAvatarId: newEntry.partnerAvatarId,
+      partnerName: newEntry.partnerName,
+      score: newEntry.score,
+      date: newEntry.date
+    };
+    setLastReplay(replay);
+
+    if (activeChallenge && (!activeGhost || replay.score > activeGhost.score)) {
+      setGhosts(prev => [replay, ...prev.filter(g => getGhostKey(g) !== getGhostKey(replay))]
+        .sort((a, b) => b.date - a.date)
+        .slice(0, MAX_GHOSTS)
+      );
+    }
     
     setCurrentScene(GameScene.GAME_OVER);
   };
 
-  const handleStartGame = () => setCurrentScene(GameScene.GAMEPLAY);
-  const handleShowHowToPlay = () => setCurrentScene(GameScene.HOW_TO_PLAY);
-  const handleExit = () => setCurrentScene(GameScene.START_MENU);
+  // Versus matches stay off the boards and out of the replay archive
+  const handleVersusOver = (result: VersusResult) => {
+    setLastVersus(result);
+    setCurrentScene(GameScene.GAME_OVER);
+  };
+
+  const handleStartGame = () => {
+    setRunSeed(activeChallenge?.seed ?? createSeed());
+    // The first VISION run on a device calibrates first, unless the player already skipped it this session
+    if (inputMode === InputMode.VISION && !trackingConfig.calibratedAt && !calibrationSkipped) {
+      setAfterCalibration(GameScene.GAMEPLAY);
+      setCurrentScene(GameScene.CALIBRATION);
+      return;
+    }
+    setCurrentScene(GameScene.GAMEPLAY);
+  };
+  const handleShowHowToPlay = () => {
+    setActiveChallenge(null);
+    setCurrentScene(GameScene.HOW_TO_PLAY);
+  };
+  const handleStartDaily = () => {
+    // Worked out on start, so a session left open past midnight plays today's seed
+    const today = getDailyChallenge();
+    setDailyChallenge(today);
+    setActiveChallenge(today);
+    setCurrentScene(GameScene.HOW_TO_PLAY);
+  };
+  const handleExit = () => {
+    setActiveChallenge(null);
+    setCurrentScene(GameScene.START_MENU);
+  };
   const handleShowLeaderboard = () => setCurrentScene(GameScene.LEADERBOARD);
 
+  const handleOpenEditor = () => {
+    setActiveChallenge(null);
+    setCurrentScene(GameScene.LEVEL_EDITOR);
+  };
+  const handleSavePreset = (preset: CustomDifficulty) => {
+    const saved = sanitizeCustomDifficulty(preset);
+    setCustomDifficulty(saved);
+    setDifficultyPresets(prev => [...prev.filter(p => p.name !== saved.name), saved]);
+  };
+  const handleDeletePreset = (name: string) => setDifficultyPresets(prev => prev.filter(p => p.name !== name));
+  const handleOpenBenchmark = () => setCurrentScene(GameScene.BENCHMARK);
+  const handleOpenDevTools = () => setCurrentScene(GameScene.DEV_TOOLS);
+  const handleCalibrate = () => {
+    setAfterCalibration(GameScene.START_MENU);
+    setCurrentScene(GameScene.CALIBRATION);
+  };
+  const handleSaveCalibration = (config: TrackingConfig) => {
+    setTrackingConfig(config);
+    setCurrentScene(afterCalibration);
+  };
+  const handleSkipCalibration = () => {
+    setCalibrationSkipped(true);
+    setCurrentScene(afterCalibration);
+  };
+  const handlePreviewLevel = () => {
+    setIsPreviewing(true);
+    setRunSeed(createSeed());
+    setCurrentScene(GameScene.GAMEPLAY);
+  };
+
+  const handleSaveReplay = () => {
+    if (!lastReplay) return;
+    setSavedReplays(prev => [lastReplay, ...prev.filter(r => r.id !== lastReplay.id)].slice(0, MAX_SAVED_REPLAYS));
+  };
+  const handleDeleteReplay = (id: string) => setSavedReplays(prev => prev.filter(r => r.id !== id));
+  const handleWatchReplay = (replay: ReplayLog) => {
+    setViewingReplay(replay);
+    setCurrentScene(GameScene.REPLAY);
+  };
+
   return (
     <div className={`w-full h-screen flex flex-col items-center justify-center overflow-hidden transition-colors duration-1000 bg-zinc-950`}>
       {currentScene === GameScene.START_MENU && (
@@ -69,30 +357,105 @@ const App: React.FC = () => {
           setTheme={setTheme}
           difficulty={difficulty}
           setDifficulty={setDifficulty}
+          customDifficulty={customDifficulty}
+          setCustomDifficulty={setCustomDifficulty}
+          difficultyPresets={difficultyPresets}
+          onSavePreset={handleSavePreset}
+          onDeletePreset={handleDeletePreset}
+          adaptive={adaptive}
+          setAdaptive={setAdaptive}
+          ruleSet={ruleSet}
+          setRuleSet={setRuleSet}
+          effectsIntensity={effectsIntensity}
+          setEffectsIntensity={setEffectsIntensity}
+          handLostTimeoutMs={handLostTimeoutMs}
+          setHandLostTimeoutMs={setHandLostTimeoutMs}
+          isCalibrated={!!trackingConfig.calibratedAt}
+          onCalibrate={handleCalibrate}
+          levels={CAMPAIGN}
+          levelId={levelId}
+          setLevelId={setLevelId}
           avatars={AVATARS}
           selectedAvatar={selectedAvatar}
           setSelectedAvatar={setSelectedAvatar}
           pilotName={pilotName}
           setPilotName={setPilotName}
+          playMode={playMode}
+          setPlayMode={setPlayMode}
+          rivalAvatar={rivalAvatar}
+          setRivalAvatar={setRivalAvatar}
+          rivalName={rivalName}
+          setRivalName={setRivalName}
+          dailyChallenge={dailyChallenge}
+          trackingConfig={trackingConfig}
+          frameSource={frameSource}
           onStart={handleShowHowToPlay}
+          onStartDaily={handleStartDaily}
           onShowLeaderboard={handleShowLeaderboard}
+          onOpenEditor={handleOpenEditor}
+          onOpenBenchmark={handleOpenBenchmark}
+          onOpenDevTools={handleOpenDevTools}
         />
       )}
 
       {currentScene === GameScene.HOW_TO_PLAY && (
         <HowToPlay 
           inputMode={inputMode}
+          playMode={runPlayMode}
+          trackingConfig={trackingConfig}
+          frameSource={frameSource}
           onStart={handleStartGame} 
         />
       )}
 
-      {currentScene === GameScene.GAMEPLAY && (
+      {currentScene === GameScene.CALIBRATION && (
+        <CalibrationWizard
+          current={trackingConfig}
+          source={frameSource}
+          onSave={handleSaveCalibration}
+          onSkip={handleSkipCalibration}
+        />
+      )}
+
+      {currentScene === GameScene.GAMEPLAY && isVersus && (
+        <VersusWorld
+          inputMode={inputMode}
+          theme={runTheme}
+          gameDifficulty={runDifficulty}
+          customDifficulty={runCustomDifficulty}
+          ruleSet={runRuleSet}
+          seed={runSeed}
+          pilots={versusPilots}
+          effectsIntensity={effectsIntensity}
+          handLostTimeoutMs={handLostTimeoutMs}
+          trackingConfig={trackingConfig}
+          frameSource={frameSource}
+          onFinish={handleVersusOver}
+          onExit={handleExit}
+        />
+      )}
+
+      {currentScene === GameScene.GAMEPLAY && !isVersus && (
         <GameWorld 
           inputMode={inputMode}
-          theme={theme}
-          gameDifficulty={difficulty}
+          theme={runTheme}
+          gameDifficulty={runDifficulty}
+          customDifficulty={runCustomDifficulty}
+          adaptive={runAdaptive}
+          ruleSet={runRuleSet}
+          level={runLevel}
           avatar={selectedAvatar}
+          partner={runPartner}
+          seed={runSeed}
+          ghostReplay={activeGhost}
+          ghostAvatar={AVATARS.find(a => a.id === activeGhost?.avatarId)}
+          effectsIntensity={effectsIntensity}
+          handLostTimeoutMs={handLostTimeoutMs}
+          trackingConfig={trackingConfig}
+          frameSource={frameSource}
+          fixedAspect={!!activeChallenge}
           onGameOver={handleGameOver} 
+          onExit={isPreviewing ? handleCloseEditorPreview : handleExit}
           highScore={highScore}
         />
       )}
@@ -100,10 +463,19 @@ const App: React.FC = () => {
       {currentScene === GameScene.GAME_OVER && (
         <GameOver 
           score={lastScore} 
+          isCleared={lastCleared}
+          adaptiveLog={lastAdaptiveLog}
+          versus={lastVersus}
+          levelName={runLevel?.name}
           highScore={highScore} 
           onRestart={handleStartGame} 
           onExit={handleExit}
           onShowLeaderboard={handleShowLeaderboard}
+          onSaveReplay={handleSaveReplay}
+          isReplaySaved={!!lastReplay && savedReplays.some(r => r.id === lastReplay.id)}
+          inputMode={inputMode}
+          trackingConfig={trackingConfig}
+          frameSource={frameSource}
         />
       )}
 
@@ -111,9 +483,48 @@ const App: React.FC = () => {
         <Leaderboard 
           entries={leaderboard} 
           avatars={AVATARS}
+          dailyChallenge={dailyChallenge}
+          replays={savedReplays}
+          adaptiveSessions={adaptiveSessions}
+          onWatchReplay={handleWatchReplay}
+          onDeleteReplay={handleDeleteReplay}
           onBack={handleExit} 
         />
       )}
+
+      {currentScene === GameScene.REPLAY && viewingReplay && (
+        <ReplayViewer
+          replay={viewingReplay}
+          avatars={AVATARS}
+          onBack={handleShowLeaderboard}
+        />
+      )}
+
+      {currentScene === GameScene.LEVEL_EDITOR && (
+        <LevelEditor
+          level={editorLevel}
+          onChange={setEditorLevel}
+          onPreview={handlePreviewLevel}
+          onBack={handleExit}
+        />
+      )}
+
+      {currentScene === GameScene.DEV_TOOLS && (
+        <DevTools
+          source={frameSource}
+          onChangeSource={setFrameSource}
+          trackingConfig={trackingConfig}
+          onBack={handleExit}
+        />
+      )}
+
+      {currentScene === GameScene.BENCHMARK && (
+        <Benchmark
+          theme={theme}
+          avatar={selectedAvatar}
+          onBack={handleExit}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import { AdaptiveAdjustment } from '../types';
+
+// Rolling performance counters. Halved after every evaluation, so recent play dominates.
+export interface AdaptiveState {
+  catches: number;
+  misses: number;
+  hazards: number;
+  nearMisses: number;
+  timerMs: number;
+  performance: number; // 0..1, last evaluated
+  trend: -1 | 0 | 1;   // Direction of the last adjustment
+}
+
+export const ADAPTIVE_MIN = 0.5;
+export const ADAPTIVE_MAX = 3;
+const EVALUATE_EVERY_MS = 4000;
+const MIN_SAMPLES = 3;
+const DECAY = 0.5;
+// The band the controller steers toward: below it eases off, above it pushes harder
+export const TARGET_LOW = 0.6;
+export const TARGET_HIGH = 0.85;
+// Eases off faster than it ramps up, so a struggling player recovers quickly
+const STEP_UP = 0.1;
+const STEP_DOWN = 0.2;
+const HAZARD_WEIGHT = 0.5;
+const NEAR_MISS_WEIGHT = 0.15;
+const COMBO_WEIGHT = 0.1;
+const COMBO_CAP = 20;
+// How close a hazard may pass the paddle's edge and still count as a near-miss
+export const NEAR_MISS_MARGIN = 25;
+
+export const createAdaptiveState = (): AdaptiveState => ({
+  catches: 0,
+  misses: 0,
+  hazards: 0,
+  nearMisses: 0,
+  timerMs: 0,
+  performance: (TARGET_LOW + TARGET_HIGH) / 2,
+  trend: 0
+});
+
+const getCatchRate = (a: AdaptiveState) => a.catches / Math.max(1, a.catches + a.misses);
+
+// 0..1 blend of catch rate, hazard hits, close calls and the running combo
+export const measurePerformance = (a: AdaptiveState, combo: number) => {
+  const opportunities = Math.max(1, a.catches + a.misses + a.hazards);
+  const score = getCatchRate(a)
+    - HAZARD_WEIGHT * (a.hazards / opportunities)
+    - NEAR_MISS_WEIGHT * (a.nearMisses / opportunities)
+    + COMBO_WEIGHT * (Math.min(combo, COMBO_CAP) / COMBO_CAP);
+  return Math.max(0, Math.min(1, score));
+};
+
+// Called once per tick. Returns the adjustment when the difficulty moved, otherwise null.
+export const updateAdaptive = (
+  a: AdaptiveState, difficulty: number, combo: number, stepMs: number, elapsedMs: number
+): AdaptiveAdjustment | null => {
+  a.timerMs += stepMs;
+  if (a.timerMs < EVALUATE_EVERY_MS) return null;
+  a.timerMs = 0;
+  if (a.catches + a.misses + a.hazards < MIN_SAMPLES) return null;
+
+  const performance = measurePerformance(a, combo);
+  const catchRate = getCatchRate(a);
+  const { hazards, nearMisses } = a;
+  a.performance = performance;
+  a.catches *= DECAY;
+  a.misses *= DECAY;
+  a.hazards *= DECAY;
+  a.nearMisses *= DECAY;
+
+  const stepped = performance > TARGET_HIGH ? Math.min(ADAPTIVE_MAX, difficulty + STEP_UP)
+    : performance < TARGET_LOW ? Math.max(ADAPTIVE_MIN, difficulty - STEP_DOWN)
+    : difficulty;
+  // Rounded so repeated steps don't accumulate float drift
+  const next = Math.round(stepped * 100) / 100;
+  a.trend = next > difficulty ? 1 : next < difficulty ? -1 : 0;
+  if (next === difficulty) return null;
+
+  return { atMs: elapsedMs, from: difficulty, to: next, performance, catchRate, hazards, nearMisses };
+};
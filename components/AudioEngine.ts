@@ -1,5 +1,5 @@
 
-import { GameTheme } from '../types';
+import { GameTheme, PowerUpType } from '../types';
 
 class AudioEngine {
   private ctx: AudioContext | null = null;
@@ -141,6 +141,11 @@ class AudioEngine {
 
   private createMelodyPattern(notes: number[], step: number, type: OscillatorType, vol: number, useDelay: boolean, randomFactor: number = 0) {
     if (!this.ctx || !this.masterGain || !this.delayNode) return;
+
+    // Notes are scheduled far ahead, so route them through a bus that stopAll can cut
+    const bus = this.ctx.createGain();
+    bus.connect(useDelay ? this.delayNode : this.masterGain);
+    this.bgmNodes.push(bus);
     
     const playTick = (time: number, noteIndex: number) => {
       if (!this.ctx || !this.masterGain || !this.delayNode) return;
@@ -156,11 +161,7 @@ class AudioEngine {
       gain.gain.exponentialRampToValueAtTime(0.001, time + step * 0.9);
 
       osc.connect(gain);
-      if (useDelay) {
-        gain.connect(this.delayNode);
-      } else {
-        gain.connect(this.masterGain);
-      }
+      gain.connect(bus);
       
       osc.start(time);
       osc.stop(time + step);
@@ -379,6 +380,168 @@ class AudioEngine {
     osc.start(now);
     osc.stop(now + 1.0);
   }
+
+  public playPowerUp(type: PowerUpType) {
+    if (!this.ctx || !this.masterGain || this.isMuted) return;
+    const now = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    switch(type) {
+        case PowerUpType.SHIELD:
+            // Rising Force-Field Hum
+            osc.type = 'triangle';
+            osc.frequency.setValueAtTime(220, now);
+            osc.frequency.exponentialRampToValueAtTime(880, now + 0.4);
+            gain.gain.setValueAtTime(0.2, now);
+            gain.gain.linearRampToValueAtTime(0, now + 0.5);
+            break;
+        case PowerUpType.MAGNET:
+            // Wobbling Field Pulse
+            osc.type = 'sine';
+            osc.frequency.setValueAtTime(300, now);
+            const wobble = this.ctx.createOscillator();
+            const wobbleGain = this.ctx.createGain();
+            wobble.frequency.value = 12;
+            wobbleGain.gain.value = 80;
+            wobble.connect(wobbleGain);
+            wobbleGain.connect(osc.frequency);
+            wobble.start(now);
+            wobble.stop(now + 0.5);
+            gain.gain.setValueAtTime(0.2, now);
+            gain.gain.linearRampToValueAtTime(0, now + 0.5);
+            break;
+        case PowerUpType.SLOW_MOTION:
+            // Time-Stretch Downsweep
+            osc.type = 'sawtooth';
+            osc.frequency.setValueAtTime(900, now);
+            osc.frequency.exponentialRampToValueAtTime(120, now + 0.6);
+            const slowFilter = this.ctx.createBiquadFilter();
+            slowFilter.type = 'lowpass';
+            slowFilter.frequency.value = 1200;
+            osc.disconnect();
+            osc.connect(slowFilter);
+            slowFilter.connect(gain);
+            gain.gain.setValueAtTime(0.15, now);
+            gain.gain.linearRampToValueAtTime(0, now + 0.6);
+            break;
+        case PowerUpType.WIDE_PADDLE:
+            // Expanding Fifth
+            osc.type = 'square';
+            osc.frequency.setValueAtTime(392.00, now); // G4
+            osc.frequency.setValueAtTime(587.33, now + 0.08); // D5
+            gain.gain.setValueAtTime(0.08, now);
+            gain.gain.linearRampToValueAtTime(0, now + 0.25);
+            break;
+        case PowerUpType.EXTRA_LIFE:
+            // Classic 1-Up Arp
+            osc.type = 'square';
+            osc.frequency.setValueAtTime(659.25, now); // E5
+            osc.frequency.setValueAtTime(783.99, now + 0.08); // G5
+            osc.frequency.setValueAtTime(1318.51, now + 0.16); // E6
+            osc.frequency.setValueAtTime(1046.50, now + 0.24); // C6
+            gain.gain.setValueAtTime(0.1, now);
+            gain.gain.linearRampToValueAtTime(0.1, now + 0.38);
+            gain.gain.linearRampToValueAtTime(0, now + 0.4);
+            break;
+    }
+
+    osc.start(now);
+    osc.stop(now + 0.7);
+  }
+
+  // Boss fights swap the theme music for a driving ostinato until the boss falls
+  public playBossMusic(theme: GameTheme) {
+    this.stopAll();
+    if (!this.ctx || !this.masterGain) return;
+    const wave: OscillatorType = theme === GameTheme.RETRO ? 'square' : 'sawtooth';
+    this.playBossAlarm();
+    this.createFMDrone(55, 82.5, 30, wave, 0.08, 600);
+    this.createMelodyPattern([220, 261.63, 220, 311.13, 220, 261.63, 207.65, 246.94], 0.15, wave, 0.04, false);
+  }
+
+  private playBossAlarm() {
+    if (!this.ctx || !this.masterGain || this.isMuted) return;
+    const now = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Two-tone Warning Siren
+    osc.type = 'square';
+    for (let i = 0; i < 4; i++) {
+      osc.frequency.setValueAtTime(i % 2 === 0 ? 440 : 330, now + i * 0.3);
+    }
+    gain.gain.setValueAtTime(0.1, now);
+    gain.gain.linearRampToValueAtTime(0, now + 1.2);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+    osc.start(now);
+    osc.stop(now + 1.2);
+  }
+
+  public playBossHit() {
+    if (!this.ctx || !this.masterGain || this.isMuted) return;
+    const now = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Heavy Impact Thump
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(180, now);
+    osc.frequency.exponentialRampToValueAtTime(45, now + 0.25);
+    gain.gain.setValueAtTime(0.4, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+    osc.start(now);
+    osc.stop(now + 0.3);
+  }
+
+  // Victory fanfare, then the theme music picks back up
+  public playBossDefeated(theme: GameTheme) {
+    if (!this.ctx || !this.masterGain) return;
+    this.stopAll();
+    if (!this.isMuted) {
+      const now = this.ctx.currentTime;
+      [523.25, 659.25, 783.99, 1046.50].forEach((freq, i) => {
+        const osc = this.ctx!.createOscillator();
+        const gain = this.ctx!.createGain();
+        osc.type = 'square';
+        osc.frequency.value = freq;
+        gain.gain.setValueAtTime(0.08, now + i * 0.12);
+        gain.gain.linearRampToValueAtTime(0, now + i * 0.12 + (i === 3 ? 0.6 : 0.11));
+        osc.connect(gain);
+        gain.connect(this.masterGain!);
+        osc.start(now + i * 0.12);
+        osc.stop(now + i * 0.12 + 0.6);
+      });
+    }
+    this.playThemeMusic(theme);
+  }
+
+  public playShieldBlock() {
+    if (!this.ctx || !this.masterGain || this.isMuted) return;
+    const now = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+
+    // Metallic Deflection Clang
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(1400, now);
+    osc.frequency.exponentialRampToValueAtTime(600, now + 0.3);
+    gain.gain.setValueAtTime(0.25, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+    osc.start(now);
+    osc.stop(now + 0.3);
+  }
 }
 
 export const audioEngine = new AudioEngine();
@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GameTheme, GameDifficulty, RuleSet, ObjectType, MotionPattern, PlayerAvatar } from '../types';
+import { SimulationInput, SimulationSettings, SimulationState, createSimulation, stepSimulation, advanceSimulation, SimulationEvent, WORLD_HEIGHT } from './GameSimulation';
+import { THEME_DATA, buildSimulationSettings } from './GameConfig';
+import { renderWorld } from './GameRenderer';
+import { ObjectPool, ObjectSource, UNPOOLED } from './ObjectPool';
+import { initMotion } from './MotionPatterns';
+import { useCanvasViewport, applyViewport } from './Viewport';
+
+interface BenchmarkProps {
+  theme: GameTheme;
+  avatar: PlayerAvatar;
+  onBack: () => void;
+}
+
+type Pipeline = 'POOLED' | 'ALLOCATING';
+
+interface BenchmarkResult {
+  count: number;
+  pipeline: Pipeline;
+  avgStepMs: number;
+  avgRenderMs: number;
+  p95FrameMs: number;
+  maxFrameMs: number;
+  avgIntervalMs: number;
+}
+
+const OBJECT_COUNTS = [1000, 2500, 5000];
+const WARMUP_FRAMES = 60;
+const MEASURED_FRAMES = 600;
+// Paddle parked off-screen: nothing is ever caught, so the object count holds steady
+const IDLE_INPUT: SimulationInput = { handX: -1, isHandDetected: true };
+
+// Keeps the field at exactly `count` objects, spread over the whole height so despawns trickle in
+const topUp = (sim: SimulationState, settings: SimulationSettings, source: ObjectSource, count: number) => {
+  // Last tick's despawns are free to reuse now that its events are gone
+  source.flush();
+  while (sim.objects.length < count) {
+    const obj = source.acquire();
+    obj.id = sim.nextId++;
+    obj.x = obj.prevX = Math.random() * settings.worldWidth;
+    obj.y = obj.prevY = Math.random() * WORLD_HEIGHT;
+    obj.radius = 20;
+    obj.speed = 2 + Math.random() * 3;
+    obj.type = ObjectType.GOOD;
+    obj.variant = settings.goodVariants[sim.objects.length % settings.goodVariants.length];
+    obj.motion = MotionPattern.SINE;
+    obj.powerUp = undefined;
+    initMotion(obj, MotionPattern.SINE, Math.random);
+    sim.objects.push(obj);
+  }
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+const Benchmark: React.FC<BenchmarkProps> = ({ theme, avatar, onBack }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [count, setCount] = useState(OBJECT_COUNTS[1]);
+  const [pipeline, setPipeline] = useState<Pipeline>('POOLED');
+  const [runId, setRunId] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+
+  // No spawner, no penalties: the benchmark owns the object count
+  const settings = useMemo(() => ({
+    ...buildSimulationSettings({ theme, difficulty: GameDifficulty.MEDIUM, ruleSet: RuleSet.HAZARDS_ONLY }),
+    spawnRateBase: Infinity
+  }), [theme]);
+  const viewport = useCanvasViewport(canvasRef, settings.worldWidth);
+  // Latest render's values, so a resize mid-run redraws at the new size instead of restarting the run
+  const live = useRef({ viewport, settings, theme, avatar, count, pipeline });
+  live.current = { viewport, settings, theme, avatar, count, pipeline };
+
+  // Options are read once when a run starts; the controls are locked until it finishes
+  useEffect(() => {
+    if (runId === 0) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { settings, theme, avatar, count, pipeline } = live.current;
+    const tData = THEME_DATA[theme];
+    const pool = new ObjectPool(count);
+    const source = pipeline === 'POOLED' ? pool : UNPOOLED;
+    const events: SimulationEvent[] = [];
+    let sim = createSimulation(settings, 1);
+    const stepMs: number[] = [];
+    const renderMs: number[] = [];
+    const intervals: number[] = [];
+    let frame = 0;
+    let lastTime = 0;
+    let frameId: number;
+
+    const loop = (time: number) => {
+      const start = performance.now();
+      topUp(sim, settings, source, count);
+      if (pipeline === 'POOLED') {
+        events.length = 0;
+        advanceSimulation(sim, IDLE_INPUT, settings, pool, events);
+      } else {
+        sim = stepSimulation(sim, IDLE_INPUT, settings).state;
+      }
+      const stepped = performance.now();
+      applyViewport(ctx, live.current.viewport);
+      renderWorld(ctx, sim, IDLE_INPUT, settings, tData, avatar);
+      const rendered = performance.now();
+
+      if (frame >= WARMUP_FRAMES) {
+        stepMs.push(stepped - start);
+        renderMs.push(rendered - stepped);
+        intervals.push(time - lastTime);
+      }
+      lastTime = time;
+      frame++;
+
+      if (frame < WARMUP_FRAMES + MEASURED_FRAMES) {
+        if (frame % 30 === 0) setProgress(frame / (WARMUP_FRAMES + MEASURED_FRAMES));
+        frameId = requestAnimationFrame(loop);
+        return;
+      }
+
+      const frameMs = stepMs.map((s, i) => s + renderMs[i]).sort((a, b) => a - b);
+      setResults(prev => [{
+        count,
+        pipeline,
+        avgStepMs: average(stepMs),
+        avgRenderMs: average(renderMs),
+        p95FrameMs: frameMs[Math.floor(frameMs.length * 0.95)],
+        maxFrameMs: frameMs[frameMs.length - 1],
+        avgIntervalMs: average(intervals)
+      }, ...prev]);
+      setProgress(null);
+    };
+
+    setProgress(0);
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [runId]);
+
+  const isRunning = progress !== null;
+
+  // Escape closes the benchmark like the Close button, which is locked while a run is measuring
+  useEffect(() => {
+    if (isRunning) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onBack();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isRunning, onBack]);
+  const optionClass = (selected: boolean) =>
+    `px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${selected ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500 hover:text-white'}`;
+
+  return (
+    <div className="w-full max-w-5xl p-8 bg-zinc-900/80 backdrop-blur-3xl rounded-[3rem] border border-white/10 shadow-2xl animate-in fade-in zoom-in duration-500 space-y-6">
+      <div className="flex justify-between items-end">
+        <div className="space-y-2">
+          <h2 className="text-5xl font-black italic tracking-tighter text-white">STRESS BENCH</h2>
+          <p className="text-zinc-500 text-xs font-black uppercase tracking-widest">
+            {WARMUP_FRAMES} warm-up + {MEASURED_FRAMES} measured frames • one simulation tick per frame
+          </p>
+        </div>
+        <button
+          onClick={onBack}
+          disabled={isRunning}
+          className="px-6 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white hover:bg-white/10 transition-all disabled:opacity-40"
+        >
+          Close [ESC]
+        </button>
+      </div>
+
+      <div
+        className="relative bg-black rounded-[2rem] border border-white/5 overflow-hidden max-h-[45vh] mx-auto"
+        style={{ aspectRatio: `${settings.worldWidth} / ${WORLD_HEIGHT}` }}
+      >
+        <canvas ref={canvasRef} className="w-full h-full" />
+        {isRunning && (
+          <div className="absolute bottom-0 left-0 h-1 bg-green-500 transition-all" style={{ width: `${progress * 100}%` }} />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-1">
+          {OBJECT_COUNTS.map(n => (
+            <button key={n} disabled={isRunning} onClick={() => setCount(n)} className={optionClass(count === n)}>
+              {n} Objects
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(['POOLED', 'ALLOCATING'] as Pipeline[]).map(p => (
+            <button key={p} disabled={isRunning} onClick={() => setPipeline(p)} className={optionClass(pipeline === p)}>
+              {p}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setRunId(id => id + 1)}
+          disabled={isRunning}
+          className="ml-auto w-28 py-3 bg-white text-zinc-950 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40"
+        >
+          {isRunning ? `${Math.round(progress * 100)}%` : 'Run'}
+        </button>
+      </div>
+
+      {results.length > 0 && (
+        <table className="w-full text-left font-mono text-xs">
+          <thead>
+            <tr className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">
+              <th className="py-2">Objects</th>
+              <th>Pipeline</th>
+              <th>Step avg</th>
+              <th>Render avg</th>
+              <th>Frame p95</th>
+              <th>Frame max</th>
+              <th>Est. FPS</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((r, i) => (
+              <tr key={i} className="border-t border-white/5 text-zinc-300">
+                <td className="py-2">{r.count}</td>
+                <td>{r.pipeline}</td>
+                <td>{r.avgStepMs.toFixed(2)} ms</td>
+                <td>{r.avgRenderMs.toFixed(2)} ms</td>
+                <td>{r.p95FrameMs.toFixed(2)} ms</td>
+                <td>{r.maxFrameMs.toFixed(2)} ms</td>
+                <td>{Math.round(1000 / r.avgIntervalMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default Benchmark;
@@ -0,0 +1,118 @@
+import { Boss, VolleyPattern } from '../types';
+
+export interface BossArena {
+  minX: number;
+  maxX: number;
+  targetX: number;   // Paddle centre in world coordinates
+  targetY: number;   // Paddle top, used to aim volleys
+  fall: number;      // Same vertical multiplier the shots will fall with
+  timeScale: number; // Slow-motion also slows the boss
+}
+
+export interface VolleyShot {
+  x: number;
+  horizontalVel: number;
+  speed: number;
+}
+
+export const BOSS_Y = 80;
+const BOSS_ENTRY_Y = -80;
+const BOSS_ENTRY_SPEED = 1.5;
+const BOSS_BASE_SPEED = 1.4;
+const BOSS_SPEED_PER_LEVEL = 0.3;
+const BOSS_BASE_HEALTH = 3;
+const BOSS_HEALTH_PER_LEVEL = 2;
+// Kept modest per level: score feeds the difficulty ramp, so a big bonus would skip levels
+const BOSS_BASE_BONUS = 200;
+const BOSS_BONUS_PER_LEVEL = 50;
+const VOLLEY_BASE_MS = 2800;
+const VOLLEY_MS_PER_LEVEL = 250;
+const VOLLEY_MIN_MS = 1200;
+const CHARGE_INTERVAL_MS = 1400;
+const HIT_FLASH_MS = 200;
+const SHOT_SPEED = 3.5;
+const SPREAD_MAX_VEL = 2.5;
+
+// Each boss cycles through the patterns, starting at a different one per level
+const VOLLEY_ORDER = [VolleyPattern.SPREAD, VolleyPattern.AIMED, VolleyPattern.RAIN];
+
+export const createBoss = (level: number, name: string, variant: string, x: number): Boss => {
+  const maxHealth = BOSS_BASE_HEALTH + level * BOSS_HEALTH_PER_LEVEL;
+  return {
+    level,
+    name,
+    variant,
+    x,
+    y: BOSS_ENTRY_Y,
+    direction: 1,
+    health: maxHealth,
+    maxHealth,
+    volleyTimer: 0,
+    chargeTimer: 0,
+    volleys: 0,
+    hitFlashMs: 0
+  };
+};
+
+export const getBossBonus = (boss: Boss) => BOSS_BASE_BONUS + boss.level * BOSS_BONUS_PER_LEVEL;
+
+export const getVolleyInterval = (boss: Boss) =>
+  Math.max(VOLLEY_MIN_MS, VOLLEY_BASE_MS - boss.level * VOLLEY_MS_PER_LEVEL);
+
+export const getVolleyPattern = (boss: Boss) => VOLLEY_ORDER[(boss.volleys + boss.level) % VOLLEY_ORDER.length];
+
+export const isBossEngaged = (boss: Boss) => boss.y >= BOSS_Y;
+
+// Descends into view, then patrols side to side. Updates the boss in place.
+export const moveBoss = (boss: Boss, arena: BossArena, stepMs: number) => {
+  boss.hitFlashMs = Math.max(0, boss.hitFlashMs - stepMs);
+  if (!isBossEngaged(boss)) {
+    boss.y = Math.min(BOSS_Y, boss.y + BOSS_ENTRY_SPEED * arena.timeScale);
+    return;
+  }
+
+  boss.x += boss.direction * (BOSS_BASE_SPEED + boss.level * BOSS_SPEED_PER_LEVEL) * arena.timeScale;
+  if (boss.x < arena.minX || boss.x > arena.maxX) {
+    boss.x = Math.max(arena.minX, Math.min(arena.maxX, boss.x));
+    boss.direction = -boss.direction;
+  }
+  boss.volleyTimer += stepMs * arena.timeScale;
+  boss.chargeTimer += stepMs * arena.timeScale;
+};
+
+export const isChargeDue = (boss: Boss) => boss.chargeTimer >= CHARGE_INTERVAL_MS;
+
+export const isVolleyDue = (boss: Boss) => boss.volleyTimer >= getVolleyInterval(boss);
+
+export const planVolley = (boss: Boss, arena: BossArena, random: () => number): VolleyShot[] => {
+  const count = Math.min(7, 2 + boss.level);
+  switch (getVolleyPattern(boss)) {
+    case VolleyPattern.SPREAD:
+      return Array.from({ length: count }, (_, i) => ({
+        x: boss.x,
+        horizontalVel: -SPREAD_MAX_VEL + (2 * SPREAD_MAX_VEL * i) / (count - 1),
+        speed: SHOT_SPEED
+      }));
+    case VolleyPattern.AIMED: {
+      // A tight stream that would land on the paddle's current position
+      const ticksToPaddle = (arena.targetY - boss.y) / (SHOT_SPEED * arena.fall);
+      const aim = (arena.targetX - boss.x) / ticksToPaddle;
+      return Array.from({ length: 3 }, (_, i) => ({
+        x: boss.x,
+        horizontalVel: aim,
+        speed: SHOT_SPEED + i * 0.6
+      }));
+    }
+    case VolleyPattern.RAIN:
+      return Array.from({ length: count }, () => ({
+        x: arena.minX + random() * (arena.maxX - arena.minX),
+        horizontalVel: 0,
+        speed: SHOT_SPEED + random() * 2
+      }));
+  }
+};
+
+export const damageBoss = (boss: Boss) => {
+  boss.health--;
+  boss.hitFlashMs = HIT_FLASH_MS;
+};
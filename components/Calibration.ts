@@ -0,0 +1,115 @@
+import { TrackingConfig, SegmentationMode } from '../types';
+import { sanitizeTrackingConfig } from './GameConfig';
+
+// Whole-lens measurements VisionTracker reports for every processed frame while calibrating
+export interface FrameStats {
+  histogram: Uint32Array; // Pixels per brightness level, 0..255
+  pixels: number;
+  count: number;          // Pixels in the largest hand blob
+  rawX: number | null;    // Its centroid, 0..1 across the mirrored lens, before reach mapping
+}
+
+export interface CalibrationSamples {
+  ambient: Float64Array; // Summed brightness histogram with no hand in view
+  ambientFrames: number;
+  ambientBlobs: number;  // Summed largest-blob size with no hand in view
+  handCounts: number[];
+  left: number[];
+  right: number[];
+}
+
+// The brightest 0.5% of an empty room is treated as glare; the cutoff sits a margin above it
+const AMBIENT_TAIL = 0.005;
+const THRESHOLD_MARGIN = 16;
+const MIN_THRESHOLD = 80;
+const MAX_THRESHOLD = 245;
+// The pixel gate must clear the room's own noise but stay well under a real hand
+const NOISE_FACTOR = 3;
+const HAND_FRACTION = 0.2;
+const MIN_HAND_PIXELS = 12;
+const MIN_GATE = 4;
+const MIN_REACH_SAMPLES = 10;
+// Reach is read from the 10th/90th percentile so one stray frame can't stretch it,
+// then pulled in slightly so the walls don't demand a full stretch
+const REACH_PERCENTILE = 0.1;
+const REACH_INSET = 0.03;
+const MIN_REACH_SPAN = 0.2;
+
+export const createCalibrationSamples = (): CalibrationSamples => ({
+  ambient: new Float64Array(256),
+  ambientFrames: 0,
+  ambientBlobs: 0,
+  handCounts: [],
+  left: [],
+  right: []
+});
+
+export const recordAmbient = (s: CalibrationSamples, stats: FrameStats) => {
+  for (let i = 0; i < 256; i++) s.ambient[i] += stats.histogram[i];
+  s.ambientFrames++;
+  s.ambientBlobs += stats.count;
+};
+
+export const recordReach = (s: CalibrationSamples, side: 'left' | 'right', stats: FrameStats) => {
+  if (stats.rawX === null) return;
+  s[side].push(stats.rawX);
+  s.handCounts.push(stats.count);
+};
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Brightness cutoff for this room, plus how many pixels per frame the strategy still mistakes for a hand.
+// BRIGHTNESS counts what leaks through the new cutoff; the others count their largest empty-room blob.
+export const measureLighting = (
+  s: CalibrationSamples, mode: SegmentationMode
+): { threshold: number; noise: number } | { error: string } => {
+  const total = s.ambient.reduce((sum, n) => sum + n, 0);
+  if (s.ambientFrames === 0 || total === 0) return { error: 'No camera frames received' };
+
+  let level = 255;
+  let above = s.ambient[255];
+  while (level > 0 && above + s.ambient[level - 1] <= total * AMBIENT_TAIL) above += s.ambient[--level];
+  const threshold = Math.max(MIN_THRESHOLD, level + THRESHOLD_MARGIN);
+  if (mode !== SegmentationMode.BRIGHTNESS) {
+    return { threshold: Math.min(MAX_THRESHOLD, threshold), noise: s.ambientBlobs / s.ambientFrames };
+  }
+  if (threshold > MAX_THRESHOLD) return { error: 'Room too bright • Dim the lights behind you or try Skin' };
+
+  let leaking = 0;
+  for (let i = Math.floor(threshold) + 1; i < 256; i++) leaking += s.ambient[i];
+  return { threshold, noise: leaking / s.ambientFrames };
+};
+
+export const deriveTrackingConfig = (
+  s: CalibrationSamples, { segmentation, sensitivity }: Pick<TrackingConfig, 'segmentation' | 'sensitivity'>, calibratedAt: number
+): { config: TrackingConfig } | { error: string } => {
+  const lighting = measureLighting(s, segmentation);
+  if ('error' in lighting) return lighting;
+  if (s.left.length < MIN_REACH_SAMPLES || s.right.length < MIN_REACH_SAMPLES) {
+    return { error: 'Hand not seen • Move closer or light your hand from the front' };
+  }
+
+  const handPixels = percentile(s.handCounts, 0.5);
+  if (handPixels < MIN_HAND_PIXELS) return { error: 'Hand too faint • Move closer to the lens' };
+  const minPixels = Math.round(Math.min(handPixels / 2, Math.max(MIN_GATE, lighting.noise * NOISE_FACTOR, handPixels * HAND_FRACTION)));
+
+  const left = percentile(s.left, REACH_PERCENTILE);
+  const right = percentile(s.right, 1 - REACH_PERCENTILE);
+  const span = right - left;
+  if (span < MIN_REACH_SPAN) return { error: 'Reach too narrow • Step back from the lens' };
+
+  return {
+    config: sanitizeTrackingConfig({
+      segmentation,
+      sensitivity,
+      threshold: lighting.threshold,
+      minPixels,
+      reachLeft: left + span * REACH_INSET,
+      reachRight: right - span * REACH_INSET,
+      calibratedAt
+    })
+  };
+};
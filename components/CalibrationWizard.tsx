@@ -0,0 +1,220 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { TrackingConfig, SegmentationMode, FrameSourceSpec, GestureType } from '../types';
+import VisionTracker from './VisionTracker';
+import { DEFAULT_TRACKING, SENSITIVITY_STEPS, SEGMENTATION_MODES, GESTURES } from './GameConfig';
+import { FrameStats, createCalibrationSamples, recordAmbient, recordReach, measureLighting, deriveTrackingConfig } from './Calibration';
+
+interface CalibrationWizardProps {
+  current: TrackingConfig;
+  source: FrameSourceSpec;
+  onSave: (config: TrackingConfig) => void;
+  onSkip: () => void;
+}
+
+type Step = 'LIGHTING' | 'LEFT' | 'RIGHT' | 'REVIEW';
+type SamplingStep = Exclude<Step, 'REVIEW'>;
+
+const SAMPLING_STEPS: Record<SamplingStep, { index: number; title: string; hint: string }> = {
+  LIGHTING: { index: 1, title: 'Clear the Lens', hint: 'Keep your hands out of view while the room is measured' },
+  LEFT: { index: 2, title: 'Reach Left', hint: 'Hold your open palm as far left as you comfortably play' },
+  RIGHT: { index: 3, title: 'Reach Right', hint: 'Now as far right as you comfortably play' }
+};
+const NEXT_STEP: Record<SamplingStep, Step> = { LIGHTING: 'LEFT', LEFT: 'RIGHT', RIGHT: 'REVIEW' };
+// Each step gives the player a moment to get into position before sampling starts
+const SETTLE_MS = 1500;
+const SAMPLE_MS = 2000;
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ current, source, onSave, onSkip }) => {
+  const [step, setStep] = useState<Step>('LIGHTING');
+  const [progress, setProgress] = useState(0);
+  const [segmentation, setSegmentation] = useState(current.segmentation);
+  const [trackerConfig, setTrackerConfig] = useState(current);
+  const [result, setResult] = useState<{ config: TrackingConfig } | { error: string } | null>(null);
+  const [sensitivity, setSensitivity] = useState(current.sensitivity);
+  const [previewX, setPreviewX] = useState<number | null>(null);
+
+  const samples = useRef(createCalibrationSamples());
+  const stepRef = useRef<Step>('LIGHTING');
+  const stepStart = useRef(performance.now());
+
+  const goTo = (next: Step) => {
+    stepRef.current = next;
+    stepStart.current = performance.now();
+    setStep(next);
+    setProgress(0);
+  };
+
+  // Runs inside the tracker's frame loop, so it only touches refs and stable setters
+  const handleFrameStats = useCallback((stats: FrameStats) => {
+    const active = stepRef.current;
+    if (active === 'REVIEW') return;
+    const elapsed = performance.now() - stepStart.current - SETTLE_MS;
+    if (elapsed < 0) return;
+
+    if (active === 'LIGHTING') recordAmbient(samples.current, stats);
+    else recordReach(samples.current, active === 'LEFT' ? 'left' : 'right', stats);
+    setProgress(Math.min(1, elapsed / SAMPLE_MS));
+    if (elapsed < SAMPLE_MS) return;
+
+    if (active === 'LIGHTING') {
+      const lighting = measureLighting(samples.current, segmentation);
+      if ('error' in lighting) {
+        setResult(lighting);
+        goTo('REVIEW');
+        return;
+      }
+      // Reach is sampled against this room's cutoff so the glare found above can't pull the centroid
+      setTrackerConfig({ ...DEFAULT_TRACKING, segmentation, threshold: lighting.threshold });
+    } else if (active === 'RIGHT') {
+      setResult(deriveTrackingConfig(samples.current, { segmentation, sensitivity: current.sensitivity }, Date.now()));
+    }
+    goTo(NEXT_STEP[active]);
+  }, [segmentation, current.sensitivity]);
+
+  const handleHandUpdate = useCallback((x: number, detected: boolean) => {
+    if (stepRef.current === 'REVIEW') setPreviewX(detected ? x : null);
+  }, []);
+
+  // Every strategy sees the room differently, so switching one starts the measurements over
+  const restart = (mode: SegmentationMode) => {
+    samples.current = createCalibrationSamples();
+    setSegmentation(mode);
+    setResult(null);
+    setPreviewX(null);
+    setTrackerConfig({ ...current, segmentation: mode });
+    goTo('LIGHTING');
+  };
+
+  const calibrated = result && 'config' in result ? { ...result.config, sensitivity } : null;
+
+  // The report can be answered from the lens. Swipes stay free for the reach test, so a fist confirms
+  // and a raised hand starts over.
+  const handleGesture = (gesture: GestureType) => {
+    if (step !== 'REVIEW') return;
+    if (gesture === GestureType.FIST) {
+      if (calibrated) onSave(calibrated);
+      else onSkip();
+    } else if (gesture === GestureType.RAISE) restart(segmentation);
+  };
+
+  return (
+    <div className="max-w-xl w-full bg-zinc-900/80 p-12 rounded-[3rem] border border-white/10 backdrop-blur-3xl shadow-2xl space-y-8 animate-in fade-in zoom-in duration-500">
+      <div className="space-y-2 text-center">
+        <h2 className="text-5xl font-black text-white italic tracking-tighter">CALIBRATION</h2>
+        <p className="text-zinc-500 text-xs font-black uppercase tracking-widest">
+          {step === 'REVIEW' ? 'Sensor Report' : `Step ${SAMPLING_STEPS[step].index} of 3`}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-4 gap-2">
+          {Object.values(SegmentationMode).map(mode => (
+            <button
+              key={mode}
+              onClick={() => restart(mode)}
+              className={`py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest ${segmentation === mode ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+            >
+              {SEGMENTATION_MODES[mode].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-center text-[9px] text-zinc-600 uppercase font-black tracking-widest">{SEGMENTATION_MODES[segmentation].desc}</p>
+      </div>
+
+      <VisionTracker
+        onHandUpdate={handleHandUpdate}
+        onFrameStats={handleFrameStats}
+        onGesture={handleGesture}
+        source={source}
+        config={calibrated ?? trackerConfig}
+      />
+
+      {step !== 'REVIEW' ? (
+        <div className="space-y-3 text-center">
+          <p className="text-white font-black text-2xl italic tracking-tighter uppercase">{SAMPLING_STEPS[step].title}</p>
+          <p className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">{SAMPLING_STEPS[step].hint}</p>
+          <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-green-400 rounded-full transition-all duration-100" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      ) : calibrated ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-black/40 px-4 py-3 rounded-2xl border border-white/5">
+              <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Brightness Cutoff</p>
+              <p className="text-white font-black text-lg font-mono">{Math.round(calibrated.threshold)}</p>
+            </div>
+            <div className="bg-black/40 px-4 py-3 rounded-2xl border border-white/5">
+              <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Pixel Gate</p>
+              <p className="text-white font-black text-lg font-mono">{calibrated.minPixels}</p>
+            </div>
+          </div>
+
+          {/* Reach across the lens, with the live hand position mapped through it */}
+          <div className="space-y-1">
+            <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Reach • Move your hand to test wall to wall</p>
+            <div className="relative h-6 bg-black/40 rounded-xl border border-white/5 overflow-hidden">
+              <div
+                className="absolute inset-y-0 bg-green-500/20 border-x border-green-400/60"
+                style={{ left: `${calibrated.reachLeft * 100}%`, right: `${(1 - calibrated.reachRight) * 100}%` }}
+              />
+              {previewX !== null && (
+                <div
+                  className="absolute top-1 bottom-1 w-1 bg-white rounded-full"
+                  style={{ left: `${(calibrated.reachLeft + previewX * (calibrated.reachRight - calibrated.reachLeft)) * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest whitespace-nowrap">Response</h3>
+            <div className="flex-1 flex gap-2">
+              {SENSITIVITY_STEPS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSensitivity(s)}
+                  className={`flex-1 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest ${sensitivity === s ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+                >
+                  ×{s}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-2xl p-4 text-center">
+          <p className="text-red-400 text-[10px] font-black uppercase tracking-widest">{result && 'error' in result ? result.error : 'Calibration failed'}</p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {step === 'REVIEW' && (
+          <button
+            onClick={() => restart(segmentation)}
+            className="flex-1 py-5 bg-white/5 border border-white/10 text-white font-black text-sm uppercase tracking-widest rounded-[2rem] hover:bg-white/10 transition-all"
+          >
+            {GESTURES[GestureType.RAISE].icon} Retry
+          </button>
+        )}
+        {calibrated ? (
+          <button
+            onClick={() => onSave(calibrated)}
+            className="flex-[2] py-5 bg-white text-zinc-950 font-black text-xl rounded-[2rem] hover:bg-green-400 transition-all active:scale-95 shadow-2xl shadow-white/5"
+          >
+            {GESTURES[GestureType.FIST].icon} LOCK IN
+          </button>
+        ) : (
+          <button
+            onClick={onSkip}
+            className="flex-1 py-5 bg-white/5 border border-white/10 text-zinc-500 font-black text-sm uppercase tracking-widest rounded-[2rem] hover:text-white transition-all"
+          >
+            {GESTURES[GestureType.FIST].icon} Skip • Stock Tracking
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { HitZone, ObjectType, MotionPattern, GameTheme, GameDifficulty, RuleSet } from '../types';
+import { sweepCircleRoundedRect, Rect } from './Collision';
+import {
+  SimulationEvent, createSimulation, advanceSimulation, getPaddleRect, PADDLE_HEIGHT, PADDLE_Y
+} from './GameSimulation';
+import { buildSimulationSettings } from './GameConfig';
+import { UNPOOLED, createBlankObject } from './ObjectPool';
+
+const PADDLE: Rect = { x: 100, y: 100, width: 140, height: 24 };
+const RADIUS = 20;
+const CORNER = 12;
+const CENTER_X = PADDLE.x + PADDLE.width / 2;
+
+describe('sweepCircleRoundedRect', () => {
+  it('catches a fast object that passes clean through the paddle in one step', () => {
+    // Starts well above, ends well below: neither endpoint touches the paddle
+    const hit = sweepCircleRoundedRect(CENTER_X, 0, CENTER_X, 300, RADIUS, PADDLE, CORNER);
+    expect(hit).not.toBeNull();
+    expect(hit!.zone).toBe(HitZone.CENTER);
+    // First contact is where the circle's bottom meets the paddle's top
+    expect(hit!.point.y).toBeCloseTo(PADDLE.y - RADIUS, 0);
+    expect(hit!.t).toBeCloseTo((PADDLE.y - RADIUS) / 300, 2);
+  });
+
+  it('catches a circle grazing a rounded corner', () => {
+    // Diagonal from the corner's centre so the closest approach is just inside the radius
+    const cornerX = PADDLE.x + CORNER;
+    const cornerY = PADDLE.y + CORNER;
+    const reach = CORNER + RADIUS - 1;
+    const x = cornerX - reach / Math.SQRT2;
+    const y = cornerY - reach / Math.SQRT2;
+    const hit = sweepCircleRoundedRect(x - 10, y - 40, x, y, RADIUS, PADDLE, CORNER);
+    expect(hit).not.toBeNull();
+    expect(hit!.offset).toBe(-1);
+    expect(hit!.zone).toBe(HitZone.EDGE);
+  });
+
+  it('misses a circle passing just outside a rounded corner', () => {
+    // Inside the bounding box's reach, but outside the rounded outline
+    const cornerX = PADDLE.x + CORNER;
+    const cornerY = PADDLE.y + CORNER;
+    const reach = CORNER + RADIUS + 1;
+    const x = cornerX - reach / Math.SQRT2;
+    const y = cornerY - reach / Math.SQRT2;
+    expect(sweepCircleRoundedRect(x, y - 40, x, y, RADIUS, PADDLE, CORNER)).toBeNull();
+  });
+
+  it('reports an edge hit near the paddle end', () => {
+    const x = PADDLE.x + PADDLE.width - 10;
+    const hit = sweepCircleRoundedRect(x, 40, x, 90, RADIUS, PADDLE, CORNER);
+    expect(hit).not.toBeNull();
+    expect(hit!.zone).toBe(HitZone.EDGE);
+    expect(hit!.offset).toBeGreaterThan(0.8);
+  });
+
+  it('ignores an object that is already below the paddle', () => {
+    const below = PADDLE.y + PADDLE.height + RADIUS + 1;
+    expect(sweepCircleRoundedRect(CENTER_X, below, CENTER_X, below + 50, RADIUS, PADDLE, CORNER)).toBeNull();
+  });
+
+  it('catches a paddle swipe that sweeps across a slow object', () => {
+    // Paddle motion is folded into the start point: the object starts 300px to the side
+    const hit = sweepCircleRoundedRect(CENTER_X + 300, PADDLE.y + 5, CENTER_X, PADDLE.y + 6, RADIUS, PADDLE, CORNER);
+    expect(hit).not.toBeNull();
+    expect(hit!.t).toBeLessThan(1);
+  });
+});
+
+describe('paddle hits in advanceSimulation', () => {
+  const settings = buildSimulationSettings({ theme: GameTheme.COSMIC, difficulty: GameDifficulty.MEDIUM, ruleSet: RuleSet.HAZARDS_ONLY });
+  const paddle = getPaddleRect(0.5, settings.paddleWidth, settings.worldWidth);
+
+  // One good drop starting the tick at (x, y0), falling speed * gravity
+  const runTick = (x: number, y0: number, speed: number, handX = 0.5, lastHandX: number | null = null) => {
+    const state = createSimulation(settings, 1);
+    state.lastHandX = lastHandX;
+    state.objects.push({
+      ...createBlankObject(), id: 1, type: ObjectType.GOOD, x, y: y0, prevX: x, prevY: y0, radius: 20, speed, motion: MotionPattern.STRAIGHT, variant: 'test'
+    });
+    const events: SimulationEvent[] = [];
+    advanceSimulation(state, { handX, isHandDetected: true }, settings, UNPOOLED, events);
+    return events.find(e => e.type === 'COLLECT');
+  };
+
+  it('collects a drop fast enough to tunnel through the paddle', () => {
+    const fall = settings.gravityMult;
+    // Travels 200px in one tick, from above the paddle to below it
+    const speed = 200 / fall;
+    expect(runTick(settings.worldWidth / 2, PADDLE_Y - 60, speed)).toBeDefined();
+  });
+
+  it('collects a drop on the paddle edge as an EDGE catch', () => {
+    const hit = runTick(paddle.x + paddle.width - 5, PADDLE_Y - 15, 1);
+    expect(hit).toMatchObject({ zone: HitZone.EDGE });
+  });
+
+  it('lets a drop already below the paddle fall past', () => {
+    expect(runTick(settings.worldWidth / 2, PADDLE_Y + PADDLE_HEIGHT + 25, 1)).toBeUndefined();
+  });
+
+  it('collects a drop the paddle swept across during the tick', () => {
+    // Paddle jumps from the far left to centre underneath a slow drop
+    expect(runTick(settings.worldWidth / 2, PADDLE_Y - 5, 0.1, 0.5, 0.1)).toBeDefined();
+  });
+});
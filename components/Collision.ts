@@ -0,0 +1,81 @@
+import { HitZone } from '../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface SweptHit {
+  t: number;      // 0..1 along the swept path
+  point: Point;   // Circle centre at first contact
+  offset: number; // -1 (left edge) .. 1 (right edge) of the paddle
+  zone: HitZone;
+}
+
+// Catches within this share of the paddle's half-width count as precise
+export const CENTER_ZONE = 0.3;
+const REFINE_STEPS = 8;
+
+// Distance from a point to a rounded rectangle's outline (negative inside)
+export const distanceToRoundedRect = (px: number, py: number, rect: Rect, cornerRadius: number) => {
+  const r = Math.min(cornerRadius, rect.width / 2, rect.height / 2);
+  const dx = Math.abs(px - (rect.x + rect.width / 2)) - (rect.width / 2 - r);
+  const dy = Math.abs(py - (rect.y + rect.height / 2)) - (rect.height / 2 - r);
+  const outside = Math.hypot(Math.max(dx, 0), Math.max(dy, 0));
+  const inside = Math.min(Math.max(dx, dy), 0);
+  return outside + inside - r;
+};
+
+export const circleHitsRoundedRect = (cx: number, cy: number, radius: number, rect: Rect, cornerRadius: number) =>
+  distanceToRoundedRect(cx, cy, rect, cornerRadius) <= radius;
+
+export const getHitZone = (offset: number) => Math.abs(offset) <= CENTER_ZONE ? HitZone.CENTER : HitZone.EDGE;
+
+// Continuous test for a circle moving (x0,y0) -> (x1,y1) against a rect already at its end-of-tick
+// position. Callers fold the paddle's own motion into the start point. Samples finer than the
+// circle so nothing tunnels through, then bisects to the first contact. Pure, deterministic and
+// allocation-free unless it hits, since it runs for every object every tick.
+export const sweepCircleRoundedRect = (
+  x0: number, y0: number, x1: number, y1: number, radius: number, rect: Rect, cornerRadius: number
+): SweptHit | null => {
+  // Broad phase: the swept box must overlap the rect grown by the radius
+  if (Math.max(x0, x1) + radius < rect.x || Math.min(x0, x1) - radius > rect.x + rect.width
+    || Math.max(y0, y1) + radius < rect.y || Math.min(y0, y1) - radius > rect.y + rect.height) {
+    return null;
+  }
+
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  const samples = Math.max(1, Math.ceil(Math.hypot(dx, dy) / Math.max(1, radius * 0.5)));
+
+  let lo = 0;
+  let hi = -1;
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    if (circleHitsRoundedRect(x0 + dx * t, y0 + dy * t, radius, rect, cornerRadius)) {
+      hi = t;
+      break;
+    }
+    lo = t;
+  }
+  if (hi < 0) return null;
+
+  if (hi > 0) {
+    for (let i = 0; i < REFINE_STEPS; i++) {
+      const mid = (lo + hi) / 2;
+      if (circleHitsRoundedRect(x0 + dx * mid, y0 + dy * mid, radius, rect, cornerRadius)) hi = mid;
+      else lo = mid;
+    }
+  }
+
+  const point = { x: x0 + dx * hi, y: y0 + dy * hi };
+  const offset = Math.max(-1, Math.min(1, (point.x - (rect.x + rect.width / 2)) / (rect.width / 2)));
+  return { t: hi, point, offset, zone: getHitZone(offset) };
+};
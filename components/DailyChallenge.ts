@@ -0,0 +1,16 @@
+import { DailyChallenge, GameDifficulty, GameTheme, RuleSet } from '../types';
+import { hashSeed } from './GameSimulation';
+
+// Keyed on the UTC date so every player worldwide shares the same drop sequence
+export const getDailyChallenge = (date: Date = new Date()): DailyChallenge => {
+  const dateKey = date.toISOString().slice(0, 10);
+  const seed = hashSeed(`daily:${dateKey}`);
+  const themes = Object.values(GameTheme);
+  return {
+    dateKey,
+    seed,
+    theme: themes[seed % themes.length],
+    difficulty: GameDifficulty.MEDIUM,
+    ruleSet: RuleSet.HAZARDS_ONLY
+  };
+};
@@ -0,0 +1,245 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { FrameSourceKind, FrameSourceSpec, SyntheticPath, TrackingConfig, GestureType } from '../types';
+import VisionTracker from './VisionTracker';
+import { SYNTHETIC_PATHS } from './FrameSources';
+import { GESTURES } from './GameConfig';
+import {
+  TrackingScore, RecordedClip, RecordedClipError, scoreSyntheticPath, scoreRecordedClip, parseClipLabels, parseRecordedClip, captureRecordedClip
+} from './TrackingHarness';
+
+interface DevToolsProps {
+  source: FrameSourceSpec;
+  onChangeSource: (source: FrameSourceSpec) => void;
+  trackingConfig: TrackingConfig;
+  onBack: () => void;
+}
+
+const SOURCE_LABELS: Record<FrameSourceKind, string> = {
+  [FrameSourceKind.CAMERA]: '📷 Camera',
+  [FrameSourceKind.VIDEO_FILE]: '🎞️ Video File',
+  [FrameSourceKind.IMAGE_SEQUENCE]: '🖼️ Image Seq',
+  [FrameSourceKind.SYNTHETIC]: '🧪 Synthetic'
+};
+
+const SEQUENCE_FPS = [10, 30, 60];
+
+const DevTools: React.FC<DevToolsProps> = ({ source, onChangeSource, trackingConfig, onBack }) => {
+  const videoInput = useRef<HTMLInputElement>(null);
+  const imageInput = useRef<HTMLInputElement>(null);
+  const labelsInput = useRef<HTMLInputElement>(null);
+  const fixtureInput = useRef<HTMLInputElement>(null);
+  const [reading, setReading] = useState<{ x: number; detected: boolean } | null>(null);
+  const [scores, setScores] = useState<[string, TrackingScore][]>([]);
+  // Last labelled clip captured or loaded, kept so it can be exported as a fixture
+  const [clip, setClip] = useState<RecordedClip | null>(null);
+  const [clipIssues, setClipIssues] = useState<string[]>([]);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [gesture, setGesture] = useState<GestureType | null>(null);
+
+  const handleHandUpdate = useCallback((x: number, detected: boolean) => setReading({ x, detected }), []);
+
+  const handlePickSource = (kind: FrameSourceKind) => {
+    // File-backed sources wait for the picker; the change handlers below switch over
+    if (kind === FrameSourceKind.VIDEO_FILE) videoInput.current?.click();
+    else if (kind === FrameSourceKind.IMAGE_SEQUENCE) imageInput.current?.click();
+    else if (kind === FrameSourceKind.SYNTHETIC) onChangeSource({ kind, path: SyntheticPath.SWEEP });
+    else onChangeSource({ kind });
+  };
+
+  const handleVideoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChangeSource({ kind: FrameSourceKind.VIDEO_FILE, file });
+    e.target.value = '';
+  };
+
+  const handleImageFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Sequence order follows file names, so numbered exports play back in order
+    const files = Array.from<File>(e.target.files ?? []).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    if (files.length > 0) onChangeSource({ kind: FrameSourceKind.IMAGE_SEQUENCE, files, fps: 30 });
+    e.target.value = '';
+  };
+
+  const handleRunHeadless = () => {
+    setScores(Object.values(SyntheticPath).map(path => [SYNTHETIC_PATHS[path].label, scoreSyntheticPath(path, trackingConfig)]));
+  };
+
+  const scoreClip = (next: RecordedClip) => {
+    setClip(next);
+    setClipIssues([]);
+    setScores([[next.name, scoreRecordedClip(next, trackingConfig)]]);
+  };
+
+  const readClipFile = async (e: React.ChangeEvent<HTMLInputElement>, load: (file: File) => Promise<RecordedClip>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsCapturing(true);
+    try {
+      scoreClip(await load(file));
+    } catch (err) {
+      setClipIssues(err instanceof RecordedClipError ? err.issues : [(err as Error).message]);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // Labels pair with the video or image sequence currently playing
+  const handleLabelsFile = (e: React.ChangeEvent<HTMLInputElement>) => readClipFile(e, async file => {
+    const name = source.kind === FrameSourceKind.VIDEO_FILE ? source.file.name : file.name.replace(/\.json$/, '');
+    return captureRecordedClip(source, parseClipLabels(await file.text()), name);
+  });
+
+  const handleFixtureFile = (e: React.ChangeEvent<HTMLInputElement>) => readClipFile(e, async file => parseRecordedClip(await file.text()));
+
+  const handleExportClip = () => {
+    if (!clip) return;
+    const blob = new Blob([JSON.stringify(clip)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${clip.name.replace(/\.[^.]*$/, '') || 'clip'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isRecorded = source.kind === FrameSourceKind.VIDEO_FILE || source.kind === FrameSourceKind.IMAGE_SEQUENCE;
+
+  const optionClass = (selected: boolean) =>
+    `px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${selected ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500 hover:text-white'}`;
+
+  return (
+    <div className="w-full max-w-5xl p-8 bg-zinc-900/80 backdrop-blur-3xl rounded-[3rem] border border-white/10 shadow-2xl animate-in fade-in zoom-in duration-500 space-y-6">
+      <div className="flex justify-between items-end">
+        <div className="space-y-2">
+          <h2 className="text-5xl font-black italic tracking-tighter text-white">DEV DECK</h2>
+          <p className="text-zinc-500 text-xs font-black uppercase tracking-widest">
+            Frame source for calibration and hand mode • resets on reload
+          </p>
+        </div>
+        <button
+          onClick={onBack}
+          className="px-6 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white hover:bg-white/10 transition-all"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {Object.values(FrameSourceKind).map(kind => (
+          <button key={kind} onClick={() => handlePickSource(kind)} className={optionClass(source.kind === kind)}>
+            {SOURCE_LABELS[kind]}
+          </button>
+        ))}
+        <input ref={videoInput} type="file" accept="video/*" className="hidden" onChange={handleVideoFile} />
+        <input ref={imageInput} type="file" accept="image/*" multiple className="hidden" onChange={handleImageFiles} />
+      </div>
+
+      {source.kind === FrameSourceKind.SYNTHETIC && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-zinc-500 text-[10px] font-black uppercase tracking-widest mr-3">Path</span>
+          {Object.values(SyntheticPath).map(path => (
+            <button key={path} onClick={() => onChangeSource({ ...source, path })} className={optionClass(source.path === path)}>
+              {SYNTHETIC_PATHS[path].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {source.kind === FrameSourceKind.IMAGE_SEQUENCE && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-zinc-500 text-[10px] font-black uppercase tracking-widest mr-3">{source.files.length} frames @</span>
+          {SEQUENCE_FPS.map(fps => (
+            <button key={fps} onClick={() => onChangeSource({ ...source, fps })} className={optionClass(source.fps === fps)}>
+              {fps} fps
+            </button>
+          ))}
+        </div>
+      )}
+
+      {source.kind === FrameSourceKind.VIDEO_FILE && (
+        <p className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">Looping {source.file.name}</p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6 items-start">
+        <div className="space-y-3">
+          <VisionTracker onHandUpdate={handleHandUpdate} onGesture={setGesture} config={trackingConfig} source={source} />
+          <div className="relative h-6 bg-black/40 rounded-xl border border-white/5 overflow-hidden">
+            {reading && (
+              <div
+                className={`absolute top-1 bottom-1 w-1 rounded-full ${reading.detected ? 'bg-green-400' : 'bg-zinc-600'}`}
+                style={{ left: `${reading.x * 100}%` }}
+              />
+            )}
+          </div>
+          <p className="text-zinc-500 text-[10px] font-black uppercase tracking-widest font-mono">
+            Paddle {reading ? reading.x.toFixed(3) : '—'} • {reading?.detected ? 'Locked' : 'No hand'} • Last gesture {gesture ? `${GESTURES[gesture].icon} ${gesture.replace('_', ' ')}` : '—'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-white text-sm font-black uppercase tracking-widest">Headless Accuracy</h3>
+              <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Synthetic or labelled clips through the analyser • current tracking config</p>
+            </div>
+            <button
+              onClick={handleRunHeadless}
+              className="w-28 py-3 bg-white text-zinc-950 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+            >
+              Run
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            {isRecorded && (
+              <button onClick={() => labelsInput.current?.click()} disabled={isCapturing} className={optionClass(false)}>
+                Score With Labels
+              </button>
+            )}
+            <button onClick={() => fixtureInput.current?.click()} disabled={isCapturing} className={optionClass(false)}>
+              Load Fixture
+            </button>
+            {clip && (
+              <button onClick={handleExportClip} disabled={isCapturing} className={optionClass(false)}>
+                Export Fixture
+              </button>
+            )}
+            <input ref={labelsInput} type="file" accept="application/json,.json" className="hidden" onChange={handleLabelsFile} />
+            <input ref={fixtureInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFixtureFile} />
+          </div>
+          {isCapturing && <p className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">Capturing frames…</p>}
+          {clipIssues.length > 0 && (
+            <ul className="space-y-1 font-mono text-[10px] text-red-300">
+              {clipIssues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+          {scores.length > 0 && (
+            <table className="w-full text-left font-mono text-xs">
+              <thead>
+                <tr className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">
+                  <th className="py-2">Clip</th>
+                  <th>Frames</th>
+                  <th>Presence</th>
+                  <th>Mean err</th>
+                  <th>Max err</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scores.map(([name, score]) => (
+                  <tr key={name} className="border-t border-white/5 text-zinc-300">
+                    <td className="py-2">{name}</td>
+                    <td>{score.frames}</td>
+                    <td>{(score.detectionRate * 100).toFixed(1)}%</td>
+                    <td>{score.meanError.toFixed(3)}</td>
+                    <td>{score.maxError.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DevTools;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { CustomDifficulty, GameDifficulty } from '../types';
+import { CUSTOM_LIMITS, DIFFICULTY_SETTINGS, TunableField } from './GameConfig';
+
+interface DifficultyEditorProps {
+  value: CustomDifficulty;
+  onChange: (value: CustomDifficulty) => void;
+  presets: CustomDifficulty[];
+  onSavePreset: (preset: CustomDifficulty) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+const BASELINES = [
+  { id: GameDifficulty.EASY, label: 'Stable' },
+  { id: GameDifficulty.MEDIUM, label: 'Nominal' },
+  { id: GameDifficulty.HARD, label: 'Critical' }
+] as const;
+
+const formatValue = (field: TunableField, value: number) => {
+  switch (field) {
+    case 'hazardChance': return `${Math.round(value * 100)}%`;
+    case 'gravity': return `${value.toFixed(2)}×`;
+    case 'rampCurve': return `^${value.toFixed(1)}`;
+    default: return String(value);
+  }
+};
+
+const DifficultyEditor: React.FC<DifficultyEditorProps> = ({ value, onChange, presets, onSavePreset, onDeletePreset }) => {
+  const setField = (field: TunableField, n: number) => {
+    const next = { ...value, [field]: n };
+    // Keep the speed range ordered whichever end was dragged
+    if (field === 'minSpeed') next.maxSpeed = Math.max(next.maxSpeed, n);
+    if (field === 'maxSpeed') next.minSpeed = Math.min(next.minSpeed, n);
+    onChange(next);
+  };
+
+  const chipClass = 'px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all';
+
+  return (
+    <div className="w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border border-purple-500/20 rounded-3xl p-4 flex flex-col gap-4 text-left">
+      <div className="flex items-center gap-3">
+        <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest px-2 whitespace-nowrap">Custom Tuning</h3>
+        <input
+          type="text"
+          value={value.name}
+          maxLength={24}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-white text-xs font-black uppercase tracking-widest focus:outline-none focus:border-purple-500/50"
+        />
+        <button
+          onClick={() => onSavePreset(value)}
+          disabled={value.name.trim() === ''}
+          className={`${chipClass} bg-white text-zinc-900 border-white disabled:opacity-40`}
+        >
+          Save
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 px-2">
+        <span className="text-zinc-600 text-[9px] font-black uppercase tracking-widest">Start from</span>
+        {BASELINES.map(b => (
+          <button
+            key={b.id}
+            onClick={() => onChange({ ...DIFFICULTY_SETTINGS[b.id], name: value.name })}
+            className={`${chipClass} bg-white/5 border-white/10 text-zinc-400 hover:text-white`}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-6 gap-y-3 px-2">
+        {(Object.keys(CUSTOM_LIMITS) as TunableField[]).map(field => {
+          const limits = CUSTOM_LIMITS[field];
+          return (
+            <label key={field} className="flex flex-col gap-1">
+              <div className="flex justify-between text-[9px] font-black uppercase tracking-widest">
+                <span className="text-zinc-500">{limits.label}</span>
+                <span className="text-white font-mono">{formatValue(field, value[field])}</span>
+              </div>
+              <input
+                type="range"
+                min={limits.min}
+                max={limits.max}
+                step={limits.step}
+                value={value[field]}
+                onChange={(e) => setField(field, Number(e.target.value))}
+                className="accent-purple-500"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-2">
+          {presets.map(p => (
+            <div key={p.name} className="flex">
+              <button
+                onClick={() => onChange(p)}
+                className={`${chipClass} rounded-r-none ${p.name === value.name ? 'bg-purple-500/20 border-purple-500/40 text-white' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+              >
+                {p.name}
+              </button>
+              <button
+                onClick={() => onDeletePreset(p.name)}
+                className={`${chipClass} rounded-l-none border-l-0 bg-white/5 border-white/10 text-zinc-600 hover:text-red-400`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DifficultyEditor;
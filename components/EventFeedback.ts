@@ -0,0 +1,45 @@
+import { GameTheme, HitZone, PowerUpType } from '../types';
+import { SimulationEvent } from './GameSimulation';
+import { THEME_DATA } from './GameConfig';
+import { audioEngine } from './AudioEngine';
+import { ParticleSystem } from './ParticleSystem';
+
+const COMBO_MILESTONE = 10;
+
+// Sound and particles for one simulation event. Presentation only: nothing here feeds back into the run.
+// Scenes sharing the music between several fields pass cueMusic false and switch it themselves.
+export const playEventFeedback = (event: SimulationEvent, theme: GameTheme, particles: ParticleSystem, cueMusic = true) => {
+  const tData = THEME_DATA[theme];
+  if (event.type === 'COLLECT') {
+    audioEngine.playCollect(theme);
+    particles.burst(event.object.x, event.object.y, tData.accent);
+    if (event.zone === HitZone.CENTER) particles.floatText(event.object.x, event.object.y - 20, `PERFECT +${event.points}`, tData.accent, 24);
+    else particles.floatText(event.object.x, event.object.y - 20, `+${event.points}`, 'white');
+    // Read from the event: a later catch or miss in the same tick has already moved sim.combo on
+    if (event.combo % COMBO_MILESTONE === 0) particles.flash(tData.accent, `x${event.combo} COMBO`);
+  } else if (event.type === 'HAZARD') {
+    audioEngine.playHazard(theme);
+    particles.explode(event.object.x, event.object.y);
+  } else if (event.type === 'MISS' && event.penalty > 0) {
+    audioEngine.playHazard(theme);
+    particles.shake(tData.effects.shake / 2);
+  } else if (event.type === 'POWERUP') {
+    audioEngine.playPowerUp(event.powerUp);
+    particles.burst(event.object.x, event.object.y, tData.accent);
+  } else if (event.type === 'BOOST') {
+    audioEngine.playPowerUp(PowerUpType.SLOW_MOTION);
+    particles.flash(tData.accent, 'BOOST');
+  } else if (event.type === 'SHIELD_BLOCK') {
+    audioEngine.playShieldBlock();
+    particles.burst(event.object.x, event.object.y, tData.accent);
+  } else if (event.type === 'BOSS_SPAWN') {
+    if (cueMusic) audioEngine.playBossMusic(theme);
+  } else if (event.type === 'BOSS_HIT') {
+    audioEngine.playBossHit();
+    particles.explode(event.boss.x, event.boss.y, 0.5);
+  } else if (event.type === 'BOSS_DEFEATED') {
+    if (cueMusic) audioEngine.playBossDefeated(theme);
+    particles.explode(event.boss.x, event.boss.y, 3);
+    particles.floatText(event.boss.x, event.boss.y + 40, `+${event.bonus}`, tData.accent, 36);
+  }
+};
@@ -0,0 +1,182 @@
+import { FrameSourceKind, FrameSourceSpec, SyntheticPath } from '../types';
+import { Frame } from './HandSegmentation';
+
+// Feeds VisionTracker. `frame` is polled once per animation frame and returns whatever is
+// current at that moment (drawable, un-mirrored, any resolution), or null while nothing is ready.
+export interface FrameSource {
+  start: () => Promise<void>;
+  stop: () => void;
+  frame: () => CanvasImageSource | null;
+}
+
+// Synthetic frames match the live camera's processing feed in shape, not resolution
+const SYNTHETIC_WIDTH = 160;
+const SYNTHETIC_HEIGHT = 120;
+const SYNTHETIC_BACKGROUND = [30, 35, 45];
+// Bright and skin-toned, so every segmentation strategy picks it up
+const SYNTHETIC_BLOB = [255, 200, 170];
+const BLOB_RADIUS_X = 0.07;
+const BLOB_RADIUS_Y = 0.14;
+
+const createVideoElement = () => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  return video;
+};
+
+export class CameraSource implements FrameSource {
+  private video = createVideoElement();
+  private stopped = false;
+
+  public start = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        width: { ideal: 480 },
+        height: { ideal: 360 },
+        frameRate: { ideal: 60 } // Request high frame rate hardware support
+      }
+    });
+    // Stopped while the permission prompt was open: release the camera straight away
+    if (this.stopped) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.video.srcObject = stream;
+    await this.video.play();
+  };
+
+  public stop = () => {
+    this.stopped = true;
+    (this.video.srcObject as MediaStream | null)?.getTracks().forEach(track => track.stop());
+    this.video.srcObject = null;
+  };
+
+  public frame = () => (this.video.readyState === 4 ? this.video : null);
+}
+
+// A recorded clip, looped, so tracking can be replayed against the same footage
+export class VideoFileSource implements FrameSource {
+  private video = createVideoElement();
+  private url: string | null = null;
+
+  constructor(private file: Blob) {}
+
+  public start = async () => {
+    this.url = URL.createObjectURL(this.file);
+    this.video.src = this.url;
+    this.video.loop = true;
+    await this.video.play();
+  };
+
+  public stop = () => {
+    this.video.pause();
+    this.video.removeAttribute('src');
+    if (this.url) URL.revokeObjectURL(this.url);
+    this.url = null;
+  };
+
+  public frame = () => (this.video.readyState >= 2 ? this.video : null);
+}
+
+// Still frames played back in file order at a fixed rate, looping
+export class ImageSequenceSource implements FrameSource {
+  private images: HTMLImageElement[] = [];
+  private urls: string[] = [];
+  private startedAt = 0;
+
+  constructor(private files: Blob[], private fps: number) {}
+
+  public start = async () => {
+    this.urls = this.files.map(file => URL.createObjectURL(file));
+    this.images = await Promise.all(this.urls.map(url => {
+      const image = new Image();
+      image.src = url;
+      return image.decode().then(() => image);
+    }));
+    this.startedAt = performance.now();
+  };
+
+  public stop = () => {
+    this.urls.forEach(url => URL.revokeObjectURL(url));
+    this.urls = [];
+    this.images = [];
+  };
+
+  public frame = () => {
+    if (this.images.length === 0) return null;
+    const index = Math.floor(((performance.now() - this.startedAt) * this.fps) / 1000);
+    return this.images[index % this.images.length];
+  };
+}
+
+// Where the blob should be at `tMs`, in player view (already mirrored, like paddle coordinates)
+export const SYNTHETIC_PATHS: Record<SyntheticPath, { label: string; position: (tMs: number) => { x: number; visible: boolean } }> = {
+  [SyntheticPath.SWEEP]: { label: 'Sweep', position: t => ({ x: 0.5 + 0.4 * Math.sin(t / 700), visible: true }) },
+  [SyntheticPath.STEPS]: { label: 'Steps', position: t => ({ x: [0.2, 0.5, 0.8, 0.5][Math.floor(t / 1500) % 4], visible: true }) },
+  [SyntheticPath.ZIGZAG]: { label: 'Zigzag', position: t => ({ x: 0.1 + 0.8 * Math.abs(((t / 2000) % 2) - 1), visible: true }) },
+  // Sweeps, but drops out of view for half a second every three seconds
+  [SyntheticPath.DROPOUT]: { label: 'Dropout', position: t => ({ x: 0.5 + 0.4 * Math.sin(t / 700), visible: t % 3000 < 2500 }) }
+};
+
+// Rasterises the synthetic scene into `out`. `mirrored` draws it as the tracker sees it after
+// flipping, which is what headless runs feed straight to the analyser. Returns the blob's x.
+export const renderSyntheticFrame = (path: SyntheticPath, tMs: number, out: Frame, mirrored = false) => {
+  const { x, visible } = SYNTHETIC_PATHS[path].position(tMs);
+  const { data, width, height } = out;
+  const cx = (mirrored ? x : 1 - x) * width;
+  const cy = height / 2;
+  const rx = BLOB_RADIUS_X * width;
+  const ry = BLOB_RADIUS_Y * height;
+  for (let py = 0, i = 0; py < height; py++) {
+    for (let px = 0; px < width; px++, i += 4) {
+      const dx = (px + 0.5 - cx) / rx;
+      const dy = (py + 0.5 - cy) / ry;
+      const color = visible && dx * dx + dy * dy <= 1 ? SYNTHETIC_BLOB : SYNTHETIC_BACKGROUND;
+      data[i] = color[0];
+      data[i + 1] = color[1];
+      data[i + 2] = color[2];
+      data[i + 3] = 255;
+    }
+  }
+  return visible ? x : null;
+};
+
+export class SyntheticSource implements FrameSource {
+  private canvas = document.createElement('canvas');
+  private image: ImageData | null = null;
+  private startedAt = 0;
+
+  constructor(private path: SyntheticPath) {
+    this.canvas.width = SYNTHETIC_WIDTH;
+    this.canvas.height = SYNTHETIC_HEIGHT;
+  }
+
+  public start = async () => {
+    this.image = new ImageData(SYNTHETIC_WIDTH, SYNTHETIC_HEIGHT);
+    this.startedAt = performance.now();
+  };
+
+  public stop = () => {
+    this.image = null;
+  };
+
+  public frame = () => {
+    const ctx = this.canvas.getContext('2d');
+    if (!this.image || !ctx) return null;
+    renderSyntheticFrame(this.path, performance.now() - this.startedAt, this.image);
+    ctx.putImageData(this.image, 0, 0);
+    return this.canvas;
+  };
+}
+
+export const createFrameSource = (spec: FrameSourceSpec): FrameSource => {
+  switch (spec.kind) {
+    case FrameSourceKind.CAMERA: return new CameraSource();
+    case FrameSourceKind.VIDEO_FILE: return new VideoFileSource(spec.file);
+    case FrameSourceKind.IMAGE_SEQUENCE: return new ImageSequenceSource(spec.files, spec.fps);
+    case FrameSourceKind.SYNTHETIC: return new SyntheticSource(spec.path);
+  }
+};
+
+export const CAMERA_SOURCE: FrameSourceSpec = { kind: FrameSourceKind.CAMERA };
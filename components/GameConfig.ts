@@ -0,0 +1,153 @@
+import { GameTheme, GameDifficulty, PowerUpType, RuleSet, InputMode, RunConfig, DifficultyTuning, CustomDifficulty, TrackingConfig, SegmentationMode, GestureType } from '../types';
+import { SimulationSettings, DEFAULT_WORLD_WIDTH, scalePaddleWidth } from './GameSimulation';
+import { EffectPreset } from './ParticleSystem';
+import { compileLevel } from './LevelScripts';
+
+export interface ThemeData {
+  accent: string;
+  gravityMult: number;
+  background: string;
+  good: string[];
+  bad: string[];
+  powerUps: Record<PowerUpType, string>;
+  boss: { name: string; variant: string };
+  charge: string;
+  effects: EffectPreset;
+}
+
+export const THEME_DATA: Record<GameTheme, ThemeData> = {
+  [GameTheme.COSMIC]: { accent: '#60a5fa', gravityMult: 0.9, background: 'radial-gradient(circle at center, #1e1b4b, #020617)', good: ['💎', '✨', '☄️'], bad: ['🪨', '🌑', '💥'], powerUps: { [PowerUpType.SHIELD]: '🛸', [PowerUpType.MAGNET]: '🧲', [PowerUpType.SLOW_MOTION]: '🌀', [PowerUpType.WIDE_PADDLE]: '🌠', [PowerUpType.EXTRA_LIFE]: '🪐' }, boss: { name: 'Void Leviathan', variant: '🐙' }, charge: '🔆', effects: { shape: 'spark', burstCount: 18, burstSpeed: 260, lifeMs: 700, gravity: 0, explosionColors: ['#f97316', '#facc15', '#a855f7'], shake: 10, glow: true } },
+  [GameTheme.NEON_CITY]: { accent: '#f472b6', gravityMult: 1.1, background: 'linear-gradient(to bottom, #2e1065, #000000)', good: ['💾', '⚡', '🔋'], bad: ['👾', '💀', '🔥'], powerUps: { [PowerUpType.SHIELD]: '🛡️', [PowerUpType.MAGNET]: '🧲', [PowerUpType.SLOW_MOTION]: '⏳', [PowerUpType.WIDE_PADDLE]: '📡', [PowerUpType.EXTRA_LIFE]: '💊' }, boss: { name: 'Mainframe Overlord', variant: '🤖' }, charge: '🔌', effects: { shape: 'pixel', burstCount: 20, burstSpeed: 300, lifeMs: 450, gravity: 0, explosionColors: ['#f472b6', '#22d3ee', '#ffffff'], shake: 12, glow: true } },
+  [GameTheme.NATURE]: { accent: '#4ade80', gravityMult: 0.7, background: 'linear-gradient(to bottom, #ecfdf5, #064e3b)', good: ['🍎', '🍒', '🌻'], bad: ['🕸️', '🍂', '🥀'], powerUps: { [PowerUpType.SHIELD]: '🐢', [PowerUpType.MAGNET]: '🍯', [PowerUpType.SLOW_MOTION]: '🐌', [PowerUpType.WIDE_PADDLE]: '🌈', [PowerUpType.EXTRA_LIFE]: '🍀' }, boss: { name: 'Thorn Queen', variant: '🐉' }, charge: '🌰', effects: { shape: 'dot', burstCount: 12, burstSpeed: 140, lifeMs: 1100, gravity: 120, explosionColors: ['#a16207', '#65a30d', '#f59e0b'], shake: 6, glow: false } },
+  [GameTheme.URBAN_RAIN]: { accent: '#94a3b8', gravityMult: 1.3, background: 'linear-gradient(to bottom, #334155, #0f172a)', good: ['☂️', '☕', '💎'], bad: ['⚡', '🚧', '💥'], powerUps: { [PowerUpType.SHIELD]: '🧥', [PowerUpType.MAGNET]: '🧲', [PowerUpType.SLOW_MOTION]: '🕰️', [PowerUpType.WIDE_PADDLE]: '🚌', [PowerUpType.EXTRA_LIFE]: '❤️' }, boss: { name: 'Storm Titan', variant: '🌪️' }, charge: '🔦', effects: { shape: 'dot', burstCount: 16, burstSpeed: 200, lifeMs: 600, gravity: 600, explosionColors: ['#e2e8f0', '#facc15', '#64748b'], shake: 14, glow: false } },
+  [GameTheme.MIND_LAB]: { accent: '#c084fc', gravityMult: 1.0, background: 'radial-gradient(circle, #2d064e, #000000)', good: ['🧠', '🧩', '🧪'], bad: ['🛑', '⚠️', '📉'], powerUps: { [PowerUpType.SHIELD]: '🔰', [PowerUpType.MAGNET]: '🧲', [PowerUpType.SLOW_MOTION]: '💤', [PowerUpType.WIDE_PADDLE]: '🔭', [PowerUpType.EXTRA_LIFE]: '💗' }, boss: { name: 'Hive Cortex', variant: '👁️' }, charge: '💉', effects: { shape: 'spark', burstCount: 14, burstSpeed: 180, lifeMs: 900, gravity: -40, explosionColors: ['#c084fc', '#f43f5e', '#ffffff'], shake: 8, glow: true } },
+  [GameTheme.RETRO]: { accent: '#fbbf24', gravityMult: 1.2, background: '#000000', good: ['⭐', '🍄', '🍒'], bad: ['👻', '💣', '👾'], powerUps: { [PowerUpType.SHIELD]: '🛡️', [PowerUpType.MAGNET]: '🧲', [PowerUpType.SLOW_MOTION]: '⌛', [PowerUpType.WIDE_PADDLE]: '📏', [PowerUpType.EXTRA_LIFE]: '💖' }, boss: { name: 'Pixel King', variant: '👹' }, charge: '🪙', effects: { shape: 'pixel', burstCount: 12, burstSpeed: 220, lifeMs: 500, gravity: 400, explosionColors: ['#ef4444', '#fbbf24', '#ffffff'], shake: 10, glow: false } }
+};
+
+const BASE_TUNING = { hazardPenalty: 1, minSpeed: 4, maxSpeed: 7, hazardChance: 0.22, gravity: 1, rampCurve: 1 };
+
+export const DIFFICULTY_SETTINGS: Record<Exclude<GameDifficulty, GameDifficulty.CUSTOM>, DifficultyTuning> = {
+  [GameDifficulty.EASY]: { ...BASE_TUNING, initialLives: 5, spawnRateBase: 1200 },
+  [GameDifficulty.MEDIUM]: { ...BASE_TUNING, initialLives: 3, spawnRateBase: 1000 },
+  [GameDifficulty.HARD]: { ...BASE_TUNING, initialLives: 1, spawnRateBase: 700 }
+};
+
+export type TunableField = Exclude<keyof DifficultyTuning, 'hazardPenalty'>;
+
+// Editor ranges for CUSTOM; also used to clamp presets loaded from storage or replays
+export const CUSTOM_LIMITS: Record<TunableField, { label: string; min: number; max: number; step: number }> = {
+  initialLives: { label: 'Lives', min: 1, max: 9, step: 1 },
+  spawnRateBase: { label: 'Spawn Interval (ms)', min: 300, max: 2500, step: 50 },
+  minSpeed: { label: 'Min Speed', min: 1, max: 12, step: 0.5 },
+  maxSpeed: { label: 'Max Speed', min: 1, max: 12, step: 0.5 },
+  hazardChance: { label: 'Hazard Ratio', min: 0, max: 0.6, step: 0.02 },
+  gravity: { label: 'Gravity', min: 0.5, max: 2, step: 0.05 },
+  rampCurve: { label: 'Ramp Curve', min: 0.5, max: 2, step: 0.1 }
+};
+
+export const DEFAULT_CUSTOM_DIFFICULTY: CustomDifficulty = { name: 'Custom', ...DIFFICULTY_SETTINGS[GameDifficulty.MEDIUM] };
+
+export const sanitizeCustomDifficulty = (raw: Partial<CustomDifficulty> | null | undefined): CustomDifficulty => {
+  const preset: CustomDifficulty = { ...DEFAULT_CUSTOM_DIFFICULTY };
+  if (typeof raw?.name === 'string' && raw.name.trim() !== '') preset.name = raw.name.trim().slice(0, 24);
+  for (const field of Object.keys(CUSTOM_LIMITS) as TunableField[]) {
+    const value = raw?.[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+    const { min, max } = CUSTOM_LIMITS[field];
+    preset[field] = Math.max(min, Math.min(max, value));
+  }
+  preset.initialLives = Math.round(preset.initialLives);
+  preset.maxSpeed = Math.max(preset.minSpeed, preset.maxSpeed);
+  return preset;
+};
+
+export const getDifficultyTuning = (difficulty: GameDifficulty, custom?: CustomDifficulty): DifficultyTuning =>
+  difficulty === GameDifficulty.CUSTOM ? sanitizeCustomDifficulty(custom) : DIFFICULTY_SETTINGS[difficulty];
+
+// Stock tracking before calibration: skin segmentation, 8-pixel gate, 10% edge deadzone
+export const DEFAULT_TRACKING: TrackingConfig = {
+  segmentation: SegmentationMode.SKIN, sensitivity: 1, threshold: 180, minPixels: 8, reachLeft: 0.1, reachRight: 0.9
+};
+
+export const SEGMENTATION_MODES: Record<SegmentationMode, { label: string; desc: string }> = {
+  [SegmentationMode.BRIGHTNESS]: { label: 'Bright', desc: 'Brightest pixels win • Needs a dim room' },
+  [SegmentationMode.SKIN]: { label: 'Skin', desc: 'Skin-tone colour model • Ignores lamps and white shirts' },
+  [SegmentationMode.MOTION]: { label: 'Motion', desc: 'Whatever moves against the learned background' },
+  [SegmentationMode.HYBRID]: { label: 'Hybrid', desc: 'Skin tones that stand out from the background' }
+};
+export const GESTURES: Record<GestureType, { icon: string; label: string; action: string }> = {
+  [GestureType.FIST]: { icon: '✊', label: 'Fist', action: 'Pause / resume' },
+  [GestureType.RAISE]: { icon: '🙌', label: 'Raise', action: 'Fire boost' },
+  [GestureType.SWIPE_LEFT]: { icon: '👈', label: 'Swipe', action: 'Confirm • Resume' },
+  [GestureType.SWIPE_RIGHT]: { icon: '👉', label: 'Swipe', action: 'Confirm • Resume' }
+};
+export const SENSITIVITY_STEPS = [0.5, 1, 1.5, 2];
+
+export const sanitizeTrackingConfig = (raw: Partial<TrackingConfig> | null | undefined): TrackingConfig => {
+  const config: TrackingConfig = { ...DEFAULT_TRACKING };
+  if (raw?.segmentation && raw.segmentation in SEGMENTATION_MODES) config.segmentation = raw.segmentation;
+  const read = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+  config.sensitivity = read(raw?.sensitivity, 0.25, 4, config.sensitivity);
+  config.threshold = read(raw?.threshold, 0, 255, config.threshold);
+  config.minPixels = Math.round(read(raw?.minPixels, 1, 1000, config.minPixels));
+  config.reachLeft = read(raw?.reachLeft, 0, 1, config.reachLeft);
+  config.reachRight = read(raw?.reachRight, 0, 1, config.reachRight);
+  // A collapsed or inverted range would divide by zero or steer backwards
+  if (config.reachRight - config.reachLeft < 0.1) {
+    config.reachLeft = DEFAULT_TRACKING.reachLeft;
+    config.reachRight = DEFAULT_TRACKING.reachRight;
+  }
+  if (typeof raw?.calibratedAt === 'number') config.calibratedAt = raw.calibratedAt;
+  return config;
+};
+
+// How long the hand may go untracked in VISION mode before the run auto-pauses (0 = never)
+export const HAND_LOST_TIMEOUTS = [0, 1000, 2000, 4000];
+export const DEFAULT_HAND_LOST_MS = 2000;
+
+// Control schemes as shown in the menu. `versus` describes both seats when two pilots share the screen.
+export const INPUT_MODES: Record<InputMode, { icon: string; label: string; desc: string; versus: string }> = {
+  [InputMode.CURSOR]: { icon: '🖱️', label: 'Cursor', desc: 'Paddle follows the pointer 1:1', versus: 'P1 mouse • P2 ← → keys' },
+  [InputMode.VISION]: { icon: '✋', label: 'Hand', desc: 'Open palm in front of the camera', versus: 'P1 left half • P2 right half of the lens' },
+  [InputMode.KEYBOARD]: { icon: '⌨️', label: 'Keys', desc: 'Hold ← → or A D to accelerate', versus: 'P1 A D keys • P2 ← → keys' },
+  [InputMode.TOUCH]: { icon: '👆', label: 'Touch', desc: 'Drag a finger across the field', versus: 'P1 touch • P2 ← → keys' },
+  [InputMode.GAMEPAD]: { icon: '🎮', label: 'Pad', desc: 'Left stick or d-pad, analog speed', versus: 'P1 gamepad • P2 ← → keys' }
+};
+
+// Which failures cost a life. Catching a hazard always resets the combo.
+export const RULE_SETS: Record<RuleSet, { label: string; desc: string; hazardsCostLife: boolean; missesCostLife: boolean }> = {
+  [RuleSet.HAZARDS_ONLY]: { label: 'Hazards Only', desc: 'Lose a life per hazard caught', hazardsCostLife: true, missesCostLife: false },
+  [RuleSet.CLASSIC]: { label: 'Classic', desc: 'Lose a life per good object missed', hazardsCostLife: false, missesCostLife: true },
+  [RuleSet.STRICT]: { label: 'Strict', desc: 'Hazards and misses both cost a life', hazardsCostLife: true, missesCostLife: true }
+};
+
+// Expects `level` to have passed validateLevelScript already
+export const buildSimulationSettings = ({ theme, difficulty, ruleSet, level, worldWidth = DEFAULT_WORLD_WIDTH, customDifficulty, adaptive = false, coop = false }: RunConfig): SimulationSettings => {
+  const settings = getDifficultyTuning(difficulty, customDifficulty);
+  const tData = THEME_DATA[theme];
+  const rules = RULE_SETS[ruleSet];
+  const lives = level?.lives ?? settings.initialLives;
+  return {
+    initialLives: lives,
+    maxLives: lives,
+    hazardPenalty: rules.hazardsCostLife ? settings.hazardPenalty : 0,
+    missPenalty: rules.missesCostLife ? settings.hazardPenalty : 0,
+    spawnRateBase: settings.spawnRateBase,
+    minSpeed: settings.minSpeed,
+    maxSpeed: settings.maxSpeed,
+    hazardChance: settings.hazardChance,
+    rampCurve: settings.rampCurve,
+    gravityMult: tData.gravityMult * settings.gravity,
+    goodVariants: tData.good,
+    badVariants: tData.bad,
+    powerUpVariants: tData.powerUps,
+    boss: tData.boss,
+    chargeVariant: tData.charge,
+    script: level ? compileLevel(level, worldWidth) : null,
+    adaptive: adaptive && !level,
+    coop,
+    worldWidth,
+    paddleWidth: scalePaddleWidth(worldWidth)
+  };
+};
@@ -1,17 +1,36 @@
 
 import React, { useMemo } from 'react';
+import { AdaptiveAdjustment, VersusResult, InputMode, GestureType, TrackingConfig, FrameSourceSpec } from '../types';
+import GestureControls, { GestureAction } from './GestureControls';
 
 interface GameOverProps {
   score: number;
+  isCleared: boolean;
+  adaptiveLog?: AdaptiveAdjustment[] | null; // Present only for adaptive runs
+  versus?: VersusResult | null; // Present only after a versus match, replaces the solo summary
+  levelName?: string;
   highScore: number;
   onRestart: () => void;
   onExit: () => void;
   onShowLeaderboard: () => void;
+  onSaveReplay: () => void;
+  isReplaySaved: boolean;
+  inputMode: InputMode;
+  trackingConfig: TrackingConfig;
+  frameSource: FrameSourceSpec; // VISION only: the summary watches the lens so a swipe can replay or exit
 }
 
-const GameOver: React.FC<GameOverProps> = ({ score, highScore, onRestart, onExit, onShowLeaderboard }) => {
+const formatClock = (ms: number) => {
+  const sec = Math.floor(ms / 1000);
+  return `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+};
+
+const GameOver: React.FC<GameOverProps> = ({ score, isCleared, adaptiveLog, versus, levelName, highScore, onRestart, onExit, onShowLeaderboard, onSaveReplay, isReplaySaved, inputMode, trackingConfig, frameSource }) => {
   const isNewHigh = score >= highScore && score > 0;
 
+  const gestureControls = (actions: GestureAction[]) =>
+    inputMode === InputMode.VISION && <GestureControls actions={actions} trackingConfig={trackingConfig} frameSource={frameSource} />;
+
   const evaluation = useMemo(() => {
     if (score >= 3000) return { rank: 'S', title: 'SINGULARITY ENTITY', color: 'text-purple-400', desc: 'Transcended physical constraints.' };
     if (score >= 1500) return { rank: 'A', title: 'VOID ARCHITECT', color: 'text-blue-400', desc: 'Mastery of gravitational flux detected.' };
@@ -20,14 +39,80 @@ const GameOver: React.FC<GameOverProps> = ({ score, highScore, onRestart, onExit
     return { rank: 'D', title: 'NEURAL NOVICE', color: 'text-zinc-500', desc: 'Neural synchronization failed early.' };
   }, [score]);
 
+  if (versus) {
+    const winner = versus.winner !== null ? versus.players[versus.winner] : null;
+    return (
+      <div className="flex flex-col items-center justify-center gap-8 text-center animate-in fade-in zoom-in duration-700 w-full max-w-3xl p-6">
+        <div className="space-y-2">
+          <h2 className={`text-7xl font-black italic tracking-tighter ${winner ? 'text-green-400 drop-shadow-[0_0_30px_rgba(34,197,94,0.3)]' : 'text-zinc-300'}`}>
+            {winner ? `${winner.name} WINS` : 'DEAD HEAT'}
+          </h2>
+          <p className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.5em] opacity-60">
+            {winner ? 'Last pilot standing' : 'Both pilots de-synced with equal extraction'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 w-full">
+          {versus.players.map((p, i) => (
+            <div
+              key={i}
+              className={`bg-zinc-900/60 backdrop-blur-3xl rounded-[2.5rem] p-8 space-y-4 border ${versus.winner === i ? 'border-green-500/40 shadow-[0_0_30px_rgba(34,197,94,0.15)]' : 'border-white/10'}`}
+            >
+              <div className="flex items-center justify-center gap-3">
+                <span className="text-4xl">{p.avatar.emoji}</span>
+                <div className="text-left">
+                  <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Player {i + 1}{versus.winner === i ? ' • Victor' : ''}</p>
+                  <p className="text-white text-sm font-black uppercase tracking-widest">{p.name}</p>
+                </div>
+              </div>
+              <p className={`text-6xl font-black italic tracking-tighter ${versus.winner === i ? 'text-green-400' : 'text-white'}`}>{p.score}</p>
+              <div className="flex justify-center gap-4 text-[9px] font-black uppercase tracking-widest text-zinc-500">
+                <span>Survived <span className="text-white font-mono">{formatClock(p.survivedMs)}</span></span>
+                <span>Missed <span className={p.misses > 0 ? 'text-red-400' : 'text-white'}>{p.misses}</span></span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-4 w-full max-w-md">
+          <button 
+            onClick={onRestart}
+            className="group relative w-full py-7 bg-white text-zinc-950 font-black text-2xl rounded-[2.5rem] transition-all transform hover:scale-[1.02] active:scale-95 shadow-2xl shadow-white/5 overflow-hidden"
+          >
+            REMATCH
+            <div className="absolute inset-0 bg-green-500/10 opacity-0 group-hover:opacity-100 transition-opacity" />
+          </button>
+
+          <button 
+            onClick={onExit}
+            className="w-full py-4 text-zinc-500 font-black text-[10px] uppercase tracking-widest hover:text-white transition-all opacity-40 hover:opacity-100"
+          >
+            Abort Mission & Return to Core
+          </button>
+        </div>
+
+        {gestureControls([
+          { gesture: GestureType.SWIPE_RIGHT, label: 'Rematch', run: onRestart },
+          { gesture: GestureType.SWIPE_LEFT, label: 'Return to Core', run: onExit }
+        ])}
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center justify-center gap-8 text-center animate-in fade-in zoom-in duration-700 w-full max-w-2xl p-6">
       <div className="space-y-2">
-        <h2 className="text-7xl font-black italic tracking-tighter text-red-500 drop-shadow-[0_0_30px_rgba(239,68,68,0.3)]">
-          DE-SYNCED
-        </h2>
+        {isCleared ? (
+          <h2 className="text-7xl font-black italic tracking-tighter text-green-400 drop-shadow-[0_0_30px_rgba(34,197,94,0.3)]">
+            SECTOR CLEARED
+          </h2>
+        ) : (
+          <h2 className="text-7xl font-black italic tracking-tighter text-red-500 drop-shadow-[0_0_30px_rgba(239,68,68,0.3)]">
+            DE-SYNCED
+          </h2>
+        )}
         <p className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.5em] opacity-60">
-          Mission Termination Protocol 0x442
+          {levelName ? `Mission: ${levelName}` : 'Mission Termination Protocol 0x442'}
         </p>
       </div>
 
@@ -61,6 +146,23 @@ const GameOver: React.FC<GameOverProps> = ({ score, highScore, onRestart, onExit
             )}
           </div>
 
+          {adaptiveLog && (
+            <div className="text-left bg-purple-500/5 p-4 rounded-2xl border border-purple-500/20 space-y-2">
+              <p className="text-purple-400 text-[9px] font-black uppercase tracking-widest">
+                Adaptive Trace • {adaptiveLog.length === 0 ? 'Held steady at ×1.0' : `×1.0 → ×${adaptiveLog[adaptiveLog.length - 1].to.toFixed(1)}`}
+              </p>
+              {adaptiveLog.length > 0 && (
+                <ul className="max-h-28 overflow-y-auto font-mono text-[10px] text-zinc-400 space-y-0.5 custom-scrollbar">
+                  {adaptiveLog.map(a => (
+                    <li key={a.atMs}>
+                      {formatClock(a.atMs)} ×{a.from.toFixed(1)} → ×{a.to.toFixed(1)} • perf {Math.round(a.performance * 100)}% • catch {Math.round(a.catchRate * 100)}%
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4 pt-8 border-t border-white/5">
             <div className="text-left bg-white/5 p-4 rounded-2xl border border-white/5">
               <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest mb-1">Previous Best</p>
@@ -73,6 +175,13 @@ const GameOver: React.FC<GameOverProps> = ({ score, highScore, onRestart, onExit
                >
                  <span>📊</span> Hall of Fame
                </button>
+               <button 
+                 onClick={onSaveReplay}
+                 disabled={isReplaySaved}
+                 className="flex items-center justify-center gap-2 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-2xl text-[9px] font-black uppercase tracking-widest text-blue-400 transition-all disabled:opacity-40 disabled:hover:bg-white/5"
+               >
+                 <span>📼</span> {isReplaySaved ? 'Flight Archived' : 'Save Replay'}
+               </button>
             </div>
           </div>
         </div>
@@ -94,6 +203,12 @@ const GameOver: React.FC<GameOverProps> = ({ score, highScore, onRestart, onExit
           Abort Mission & Return to Core
         </button>
       </div>
+
+      {gestureControls([
+        { gesture: GestureType.SWIPE_RIGHT, label: 'Re-initialize', run: onRestart },
+        { gesture: GestureType.SWIPE_LEFT, label: 'Return to Core', run: onExit },
+        ...(isReplaySaved ? [] : [{ gesture: GestureType.RAISE, label: 'Save Replay', run: onSaveReplay }])
+      ])}
     </div>
   );
 };
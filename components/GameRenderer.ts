@@ -0,0 +1,126 @@
+import { PlayerAvatar, PowerUpType, ObjectType } from '../types';
+import { ThemeData } from './GameConfig';
+import { SimulationState, SimulationInput, PaddleInput, SimulationSettings, getPaddleRect, getPaddleWidth, WORLD_HEIGHT, PADDLE_CORNER_RADIUS } from './GameSimulation';
+
+const drawPaddle = (
+  ctx: CanvasRenderingContext2D,
+  input: PaddleInput,
+  sim: SimulationState,
+  settings: SimulationSettings,
+  tData: ThemeData,
+  avatar: PlayerAvatar,
+  color: string
+) => {
+  const { x: px, y: py, width: pw, height: ph } = getPaddleRect(input.handX, getPaddleWidth(sim, settings), settings.worldWidth);
+
+  ctx.shadowBlur = input.isHandDetected ? 30 : 0;
+  ctx.shadowColor = tData.accent;
+  ctx.fillStyle = input.isHandDetected ? color : '#333';
+  ctx.beginPath();
+  ctx.roundRect(px, py, pw, ph, PADDLE_CORNER_RADIUS);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  // Shield dome
+  if (sim.effects[PowerUpType.SHIELD]) {
+    ctx.save();
+    ctx.strokeStyle = tData.accent;
+    ctx.globalAlpha = 0.6;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.ellipse(px + pw/2, py + ph/2, pw/2 + 16, 70, 0, Math.PI, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Avatar
+  ctx.font = '40px Inter';
+  ctx.textAlign = 'center';
+  ctx.fillText(avatar.emoji, px + pw/2, py - 15);
+};
+
+// Direct canvas calls shared by live gameplay and replay playback - zero React overhead.
+// Co-op paddles and the drops reserved for each player are tinted with that pilot's colour.
+export const renderWorld = (
+  ctx: CanvasRenderingContext2D,
+  sim: SimulationState,
+  input: SimulationInput,
+  settings: SimulationSettings,
+  tData: ThemeData,
+  avatar: PlayerAvatar,
+  partnerAvatar?: PlayerAvatar
+) => {
+  ctx.clearRect(0, 0, settings.worldWidth, WORLD_HEIGHT);
+  const partner = settings.coop ? input.partner : undefined;
+  const owners = [avatar, partnerAvatar ?? avatar];
+
+  drawPaddle(ctx, input, sim, settings, tData, avatar, partner ? avatar.color : 'white');
+  if (partner) drawPaddle(ctx, partner, sim, settings, tData, owners[1], owners[1].color);
+
+  // Render Objects (glyph size follows radius so split halves read as smaller).
+  // Centred on the point the collision circle uses.
+  ctx.textBaseline = 'middle';
+  sim.objects.forEach(obj => {
+    if (obj.type === ObjectType.CHARGE) {
+      // Halo marks the only objects that hurt the boss
+      ctx.save();
+      ctx.strokeStyle = tData.accent;
+      ctx.lineWidth = 2;
+      ctx.shadowBlur = 15;
+      ctx.shadowColor = tData.accent;
+      ctx.beginPath();
+      ctx.arc(obj.x, obj.y, obj.radius * 1.1, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+    if (obj.owner !== undefined) {
+      ctx.save();
+      ctx.strokeStyle = owners[obj.owner].color;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(obj.x, obj.y, obj.radius * 1.15, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+    ctx.font = `${Math.round(obj.radius * 1.6)}px Inter`;
+    ctx.fillText(obj.variant, obj.x, obj.y);
+  });
+  ctx.textBaseline = 'alphabetic';
+
+  // Boss (flashes white for a moment after each charge lands)
+  if (sim.boss) {
+    ctx.save();
+    ctx.shadowBlur = sim.boss.hitFlashMs > 0 ? 40 : 25;
+    ctx.shadowColor = sim.boss.hitFlashMs > 0 ? 'white' : tData.accent;
+    ctx.font = '80px Inter';
+    ctx.textAlign = 'center';
+    ctx.fillText(sim.boss.variant, sim.boss.x, sim.boss.y + 25);
+    ctx.restore();
+  }
+};
+
+// Translucent personal-best paddle, drawn as a dashed outline so it never reads as the live one
+export const renderGhost = (
+  ctx: CanvasRenderingContext2D,
+  input: SimulationInput,
+  settings: SimulationSettings,
+  tData: ThemeData,
+  avatar: PlayerAvatar
+) => {
+  const { x: px, y: py, width: pw, height: ph } = getPaddleRect(input.handX, settings.paddleWidth, settings.worldWidth);
+
+  ctx.save();
+  ctx.globalAlpha = 0.3;
+  ctx.strokeStyle = tData.accent;
+  ctx.fillStyle = tData.accent;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 6]);
+  ctx.beginPath();
+  ctx.roundRect(px, py, pw, ph, PADDLE_CORNER_RADIUS);
+  ctx.stroke();
+
+  ctx.font = '40px Inter';
+  ctx.textAlign = 'center';
+  ctx.fillText(avatar.emoji, px + pw/2, py - 15);
+  ctx.restore();
+};
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { GameTheme, GameDifficulty, RuleSet, ObjectType, MotionPattern, HitZone } from '../types';
+import {
+  SimulationState, SimulationEvent, SimulationInput, createSimulation, stepSimulation, advanceSimulation, PADDLE_Y
+} from './GameSimulation';
+import { buildSimulationSettings } from './GameConfig';
+import { ObjectPool, UNPOOLED, createBlankObject } from './ObjectPool';
+
+const settingsFor = (ruleSet: RuleSet) =>
+  buildSimulationSettings({ theme: GameTheme.COSMIC, difficulty: GameDifficulty.MEDIUM, ruleSet });
+
+const CENTER: SimulationInput = { handX: 0.5, isHandDetected: true };
+
+// Drops a straight-falling object into the field at (x, y)
+const place = (state: SimulationState, type: ObjectType, x: number, y: number) => {
+  const obj = { ...createBlankObject(), id: state.nextId++, type, x, y, prevX: x, prevY: y, radius: 20, speed: 4, motion: MotionPattern.STRAIGHT, variant: 'test' };
+  state.objects.push(obj);
+  return obj;
+};
+
+const tick = (state: SimulationState, settings: ReturnType<typeof settingsFor>, input = CENTER) => {
+  const events: SimulationEvent[] = [];
+  advanceSimulation(state, input, settings, UNPOOLED, events);
+  return events;
+};
+
+describe('scoring', () => {
+  it('pays the precision bonus for a centred catch', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const state = createSimulation(settings, 1);
+    place(state, ObjectType.GOOD, settings.worldWidth / 2, PADDLE_Y - 15);
+    const events = tick(state, settings);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'COLLECT', points: 8, zone: HitZone.CENTER }));
+    expect(state.score).toBe(8);
+    expect(state.combo).toBe(1);
+  });
+
+  it('pays the base value for an edge catch', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const state = createSimulation(settings, 1);
+    place(state, ObjectType.GOOD, settings.worldWidth / 2 + settings.paddleWidth * 0.45, PADDLE_Y - 15);
+    tick(state, settings);
+    expect(state.score).toBe(5);
+  });
+
+  it('grows the payout with the combo', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const state = createSimulation(settings, 1);
+    state.combo = 8;
+    place(state, ObjectType.GOOD, settings.worldWidth / 2, PADDLE_Y - 15);
+    tick(state, settings);
+    expect(state.score).toBe(5 + 2 + 3);
+  });
+
+  it('reports the combo reached by each catch in a tick', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const state = createSimulation(settings, 1);
+    state.combo = 8;
+    place(state, ObjectType.GOOD, settings.worldWidth / 2 - 20, PADDLE_Y - 15);
+    place(state, ObjectType.GOOD, settings.worldWidth / 2 + 20, PADDLE_Y - 15);
+    const combos = tick(state, settings).flatMap(e => (e.type === 'COLLECT' ? [e.combo] : []));
+    expect(combos).toEqual([9, 10]);
+    expect(state.combo).toBe(10);
+  });
+});
+
+describe('life loss', () => {
+  it('costs a life and the combo for a caught hazard under HAZARDS_ONLY rules', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const state = createSimulation(settings, 1);
+    state.combo = 5;
+    place(state, ObjectType.BAD, settings.worldWidth / 2, PADDLE_Y - 15);
+    tick(state, settings);
+    expect(state.lives).toBe(settings.initialLives - settings.hazardPenalty);
+    expect(state.combo).toBe(0);
+  });
+
+  it('costs a life for a caught hazard under STRICT rules', () => {
+    const settings = settingsFor(RuleSet.STRICT);
+    const state = createSimulation(settings, 1);
+    place(state, ObjectType.BAD, settings.worldWidth / 2, PADDLE_Y - 15);
+    tick(state, settings);
+    expect(settings.hazardPenalty).toBeGreaterThan(0);
+    expect(state.lives).toBe(settings.initialLives - settings.hazardPenalty);
+  });
+
+  it('keeps lives on a caught hazard under CLASSIC rules', () => {
+    const settings = settingsFor(RuleSet.CLASSIC);
+    const state = createSimulation(settings, 1);
+    place(state, ObjectType.BAD, settings.worldWidth / 2, PADDLE_Y - 15);
+    tick(state, settings);
+    expect(state.lives).toBe(settings.initialLives);
+  });
+
+  // A good object about to fall past the bottom, well clear of the paddle
+  const missDrop = (ruleSet: RuleSet) => {
+    const settings = settingsFor(ruleSet);
+    const state = createSimulation(settings, 1);
+    place(state, ObjectType.GOOD, 40, 649);
+    const events = tick(state, settings);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'MISS' }));
+    expect(state.misses).toBe(1);
+    return { settings, state };
+  };
+
+  it('costs a life for a missed drop under CLASSIC rules', () => {
+    const { settings, state } = missDrop(RuleSet.CLASSIC);
+    expect(settings.missPenalty).toBeGreaterThan(0);
+    expect(state.lives).toBe(settings.initialLives - settings.missPenalty);
+  });
+
+  it('costs a life for a missed drop under STRICT rules', () => {
+    const { settings, state } = missDrop(RuleSet.STRICT);
+    expect(settings.missPenalty).toBeGreaterThan(0);
+    expect(state.lives).toBe(settings.initialLives - settings.missPenalty);
+  });
+
+  it('only counts a missed drop under HAZARDS_ONLY rules', () => {
+    const { settings, state } = missDrop(RuleSet.HAZARDS_ONLY);
+    expect(state.lives).toBe(settings.initialLives);
+  });
+
+  it('ends the run when the last life is lost', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const state = createSimulation(settings, 1);
+    state.lives = settings.hazardPenalty;
+    place(state, ObjectType.BAD, settings.worldWidth / 2, PADDLE_Y - 15);
+    const events = tick(state, settings);
+    expect(state.isOver).toBe(true);
+    expect(events.at(-1)).toEqual({ type: 'GAME_OVER', score: 0 });
+  });
+});
+
+describe('drop sequence', () => {
+  // Regular drops only: boss volleys and charges come from the boss's own stream
+  // Nothing costs a life, so both players see the whole sequence
+  const playDrops = (seed: number, steer: (state: SimulationState) => number, ticks: number) => {
+    const settings = { ...settingsFor(RuleSet.HAZARDS_ONLY), hazardPenalty: 0, missPenalty: 0 };
+    const state = createSimulation(settings, seed);
+    const drops: { type: ObjectType; x: number; speed: number; variant: string }[] = [];
+    let bosses = 0;
+    for (let t = 0; t < ticks && !state.isOver; t++) {
+      for (const event of tick(state, settings, { handX: steer(state), isHandDetected: true })) {
+        if (event.type === 'BOSS_SPAWN') bosses++;
+        if (event.type !== 'SPAWN' || event.object.type === ObjectType.CHARGE || event.object.y !== event.object.prevY || event.object.y > 0) continue;
+        const { type, x, speed, variant } = event.object;
+        drops.push({ type, x, speed, variant });
+      }
+    }
+    return { drops, score: state.score, bosses };
+  };
+
+  // Tracks the lowest good drop, so its score and difficulty pull away from an idle player's
+  const chase = (state: SimulationState) => {
+    const target = state.objects
+      .filter(o => o.type !== ObjectType.BAD)
+      .reduce<SimulationState['objects'][number] | null>((low, o) => (!low || o.y > low.y ? o : low), null);
+    return target ? target.x / 800 : 0.5;
+  };
+
+  it('is the same for every player on a seed, whatever their score', () => {
+    const skilled = playDrops(2024, chase, 20000);
+    const idle = playDrops(2024, () => 0, 20000);
+    expect(skilled.score).toBeGreaterThan(idle.score + 100);
+    expect(skilled.bosses).toBeGreaterThan(0);
+    const shared = Math.min(skilled.drops.length, idle.drops.length);
+    expect(shared).toBeGreaterThan(100);
+    expect(skilled.drops.slice(0, shared)).toEqual(idle.drops.slice(0, shared));
+  });
+});
+
+describe('pooled and pure stepping', () => {
+  it('produce identical runs', () => {
+    const settings = settingsFor(RuleSet.STRICT);
+    const pool = new ObjectPool();
+    const events: SimulationEvent[] = [];
+    let pure = createSimulation(settings, 42);
+    const pooled = createSimulation(settings, 42);
+    for (let t = 0; t < 3000 && !pure.isOver; t++) {
+      const input = { handX: 0.5 + 0.45 * Math.sin(t / 40), isHandDetected: true };
+      const result = stepSimulation(pure, input, settings);
+      pure = result.state;
+      events.length = 0;
+      advanceSimulation(pooled, input, settings, pool, events);
+      expect(events.map(e => e.type)).toEqual(result.events.map(e => e.type));
+    }
+    const snapshot = (s: SimulationState) => ({
+      ...s,
+      objects: s.objects.map(({ id, x, y, type, variant, powerUp }) => ({ id, x, y, type, variant, powerUp }))
+    });
+    expect(pure.tick).toBeGreaterThan(100);
+    expect(snapshot(pooled)).toEqual(snapshot(pure));
+  });
+
+  it('never mutates the previous state', () => {
+    const settings = settingsFor(RuleSet.HAZARDS_ONLY);
+    const before = createSimulation(settings, 7);
+    place(before, ObjectType.GOOD, settings.worldWidth / 2, PADDLE_Y - 15);
+    const copy = JSON.stringify(before);
+    stepSimulation(before, CENTER, settings);
+    expect(JSON.stringify(before)).toBe(copy);
+  });
+});
@@ -0,0 +1,533 @@
+import { GameObject, ObjectType, PowerUpType, MotionPattern, Boss, VolleyPattern, HitZone, AdaptiveAdjustment } from '../types';
+import { applyMotion, initMotion, pickMotion, shouldSplit, splitObject } from './MotionPatterns';
+import {
+  BossArena, createBoss, moveBoss, planVolley, damageBoss, getBossBonus, getVolleyPattern, isBossEngaged, isChargeDue, isVolleyDue
+} from './BossEncounters';
+import { sweepCircleRoundedRect } from './Collision';
+import { ObjectSource, UNPOOLED } from './ObjectPool';
+import { AdaptiveState, createAdaptiveState, updateAdaptive, NEAR_MISS_MARGIN } from './AdaptiveDifficulty';
+
+// Logical playfield size. Rendering scales from these coordinates: the height is fixed
+// and the width follows the screen's aspect ratio, chosen once per run.
+export const WORLD_HEIGHT = 600;
+export const DEFAULT_WORLD_WIDTH = 800;
+const MIN_WORLD_WIDTH = 450;
+const MAX_WORLD_WIDTH = 1400;
+
+// The simulation always advances in fixed 60Hz ticks, independent of the display refresh rate
+export const FIXED_STEP_MS = 1000 / 60;
+
+export const PADDLE_WIDTH = 140;
+export const PADDLE_HEIGHT = 24;
+export const PADDLE_CORNER_RADIUS = 12;
+export const PADDLE_Y = WORLD_HEIGHT - 110;
+
+const DESPAWN_Y = 650;
+const SPAWN_Y = -50;
+export const SPAWN_MARGIN = 50;
+const POWERUP_CHANCE = 0.05;
+
+// Timed effects last this long after pickup. EXTRA_LIFE is instant.
+export const POWERUP_DURATIONS: Record<PowerUpType, number> = {
+  [PowerUpType.SHIELD]: 12000,
+  [PowerUpType.MAGNET]: 8000,
+  [PowerUpType.SLOW_MOTION]: 6000,
+  [PowerUpType.WIDE_PADDLE]: 10000,
+  [PowerUpType.EXTRA_LIFE]: 0
+};
+
+const POWERUP_TYPES = Object.values(PowerUpType);
+const SLOW_MOTION_FACTOR = 0.5;
+const WIDE_PADDLE_FACTOR = 1.6;
+const MAGNET_PULL = 0.06;
+const MAGNET_MAX_SHIFT = 6;
+const PRECISION_BONUS = 3;
+// Catches that fill the boost meter, and how long a fired boost slows time
+export const BOOST_CATCHES = 12;
+export const BOOST_DURATION_MS = 4000;
+const CHARGE_SPEED = 4;
+const VOLLEY_OFFSET_Y = 30;
+const MAX_ADAPTIVE_HAZARD_CHANCE = 0.6;
+// Co-op: share of endless good drops reserved for one player, split evenly between them
+const OWNER_TAG_CHANCE = 0.4;
+
+// A wave script flattened to absolute spawn times (see LevelScripts)
+export interface ScriptedDrop {
+  atMs: number;
+  wave: number;
+  x: number;
+  type: ObjectType;
+  speed: number;
+  motion: MotionPattern;
+  powerUp?: PowerUpType;
+}
+
+export interface CompiledLevel {
+  drops: ScriptedDrop[];
+  waveCount: number;
+  endMs: number;
+}
+
+export interface SimulationSettings {
+  initialLives: number;
+  maxLives: number;
+  hazardPenalty: number;
+  missPenalty: number;
+  spawnRateBase: number;
+  minSpeed: number;
+  maxSpeed: number;
+  hazardChance: number;
+  rampCurve: number;
+  gravityMult: number;
+  goodVariants: string[];
+  badVariants: string[];
+  powerUpVariants: Record<PowerUpType, string>;
+  boss: { name: string; variant: string };
+  chargeVariant: string;
+  script: CompiledLevel | null; // Replaces the endless spawn timer and difficulty ramp when set
+  adaptive: boolean; // Endless only: difficulty follows player performance instead of score and time
+  coop: boolean; // Second paddle from input.partner; shared lives and score
+  worldWidth: number;
+  paddleWidth: number;
+}
+
+export interface PaddleInput {
+  handX: number;
+  isHandDetected: boolean;
+}
+
+export interface SimulationInput extends PaddleInput {
+  partner?: PaddleInput; // Co-op only: player 2's paddle
+  boost?: boolean;       // Fires the boost this tick if the meter is full; co-op players share one meter
+}
+
+export interface SimulationState {
+  tick: number;
+  elapsedMs: number;
+  score: number;
+  lives: number;
+  combo: number;
+  misses: number;
+  boostCharge: number; // Catches towards the next boost, up to BOOST_CATCHES
+  difficulty: number;
+  objects: GameObject[];
+  effects: Partial<Record<PowerUpType, number>>; // Remaining ms per active timed effect
+  spawnTimer: number;
+  scriptIndex: number;
+  wave: number;
+  boss: Boss | null;
+  bossLevel: number; // Highest whole difficulty level that has summoned a boss
+  adaptive: AdaptiveState | null;
+  rngState: number;
+  dropRngState: number; // Separate stream for regular drops, so boss fights never shift the drop sequence
+  nextId: number;
+  lastHandX: number | null; // Previous tick's input, so collisions can sweep the paddle's motion too
+  lastPartnerX: number | null;
+  isOver: boolean;
+  isCleared: boolean;
+}
+
+export type SimulationEvent =
+  | { type: 'SPAWN'; object: GameObject }
+  | { type: 'COLLECT'; object: GameObject; points: number; zone: HitZone; player: number; combo: number } // Combo including this catch
+  | { type: 'HAZARD'; object: GameObject; penalty: number; player: number }
+  | { type: 'MISS'; object: GameObject; penalty: number }
+  | { type: 'SHIELD_BLOCK'; object: GameObject }
+  | { type: 'POWERUP'; object: GameObject; powerUp: PowerUpType }
+  | { type: 'EFFECT_END'; powerUp: PowerUpType }
+  | { type: 'BOOST' }
+  | { type: 'SPLIT'; object: GameObject }
+  | { type: 'WAVE_START'; wave: number }
+  | { type: 'BOSS_SPAWN'; boss: Boss }
+  | { type: 'BOSS_VOLLEY'; pattern: VolleyPattern }
+  | { type: 'BOSS_HIT'; boss: Boss }
+  | { type: 'BOSS_DEFEATED'; boss: Boss; bonus: number }
+  | { type: 'ADAPT'; adjustment: AdaptiveAdjustment }
+  | { type: 'LEVEL_COMPLETE'; score: number }
+  | { type: 'GAME_OVER'; score: number };
+
+export interface StepResult {
+  state: SimulationState;
+  events: SimulationEvent[];
+}
+
+// Mulberry32: tiny, fast and good enough for gameplay
+const mulberry32 = (next: number) => {
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Returns [value in 0..1, next state]
+export const nextRandom = (rngState: number): [number, number] => {
+  const next = (rngState + 0x6D2B79F5) | 0;
+  return [mulberry32(next), next];
+};
+
+// Same sequence as nextRandom, advancing one of the state's streams in place
+const drawRandom = (state: SimulationState, stream: 'rngState' | 'dropRngState') => {
+  state[stream] = (state[stream] + 0x6D2B79F5) | 0;
+  return mulberry32(state[stream]);
+};
+
+// FNV-1a: turns any string (e.g. a date key) into a stable 32-bit seed
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createSeed = (): number => (Math.random() * 0x100000000) >>> 0;
+
+export const fitWorldWidth = (aspectRatio: number) =>
+  Math.max(MIN_WORLD_WIDTH, Math.min(MAX_WORLD_WIDTH, Math.round(WORLD_HEIGHT * aspectRatio)));
+
+// The paddle keeps the same share of the playfield on any aspect ratio
+export const scalePaddleWidth = (worldWidth: number) => Math.round(PADDLE_WIDTH * worldWidth / DEFAULT_WORLD_WIDTH);
+
+export const getPaddleWidth = (state: Pick<SimulationState, 'effects'>, settings: Pick<SimulationSettings, 'paddleWidth'>) =>
+  state.effects[PowerUpType.WIDE_PADDLE] ? settings.paddleWidth * WIDE_PADDLE_FACTOR : settings.paddleWidth;
+
+export const getPaddleRect = (handX: number, width: number, worldWidth: number) => ({
+  x: handX * worldWidth - width / 2,
+  y: PADDLE_Y,
+  width,
+  height: PADDLE_HEIGHT
+});
+
+export const createSimulation = (settings: SimulationSettings, seed: number): SimulationState => ({
+  tick: 0,
+  elapsedMs: 0,
+  score: 0,
+  lives: settings.initialLives,
+  combo: 0,
+  misses: 0,
+  boostCharge: 0,
+  difficulty: 1,
+  objects: [],
+  effects: {},
+  spawnTimer: 0,
+  scriptIndex: 0,
+  wave: 0,
+  boss: null,
+  bossLevel: 1,
+  adaptive: settings.adaptive && !settings.script ? createAdaptiveState() : null,
+  rngState: seed | 0,
+  dropRngState: hashSeed(`drops:${seed}`) | 0,
+  nextId: 0,
+  lastHandX: null,
+  lastPartnerX: null,
+  isOver: false,
+  isCleared: false
+});
+
+export const cloneSimulation = (state: SimulationState): SimulationState => ({
+  ...state,
+  objects: state.objects.map(obj => ({ ...obj })),
+  effects: { ...state.effects },
+  boss: state.boss && { ...state.boss },
+  adaptive: state.adaptive && { ...state.adaptive }
+});
+
+// Advances the world by exactly one fixed tick. Pure: the previous state is never mutated.
+export const stepSimulation = (prev: SimulationState, input: SimulationInput, settings: SimulationSettings): StepResult => {
+  if (prev.isOver) return { state: prev, events: [] };
+  const state = cloneSimulation(prev);
+  const events: SimulationEvent[] = [];
+  advanceSimulation(state, input, settings, UNPOOLED, events);
+  return { state, events };
+};
+
+// Same rules as stepSimulation, but mutates `state` in place and recycles objects through `pool`,
+// so the live loop creates no per-object garbage. Events are appended to `events`.
+export const advanceSimulation = (
+  state: SimulationState,
+  input: SimulationInput,
+  settings: SimulationSettings,
+  pool: ObjectSource,
+  events: SimulationEvent[]
+) => {
+  if (state.isOver) return;
+  pool.flush();
+
+  const random = () => drawRandom(state, 'rngState');
+  // Every regular drop takes the same number of draws from this stream, whatever it turns out to be
+  const randomDrop = () => drawRandom(state, 'dropRngState');
+  const { objects, effects } = state;
+  state.tick++;
+  state.elapsedMs += FIXED_STEP_MS;
+
+  // Effects as they stood at the start of the tick drive this tick's movement and paddle
+  const slowMotion = effects[PowerUpType.SLOW_MOTION] ? SLOW_MOTION_FACTOR : 1;
+  const magnet = !!effects[PowerUpType.MAGNET];
+  const paddleWidth = getPaddleWidth(state, settings);
+
+  // Tick down timed effects
+  for (const type of POWERUP_TYPES) {
+    const remaining = effects[type];
+    if (remaining === undefined) continue;
+    if (remaining > FIXED_STEP_MS) {
+      effects[type] = remaining - FIXED_STEP_MS;
+    } else {
+      delete effects[type];
+      events.push({ type: 'EFFECT_END', powerUp: type });
+    }
+  }
+
+  // A fired boost is slow motion on demand; it takes hold from the next tick like a pickup would
+  if (input.boost && state.boostCharge >= BOOST_CATCHES) {
+    state.boostCharge = 0;
+    effects[PowerUpType.SLOW_MOTION] = Math.max(effects[PowerUpType.SLOW_MOTION] ?? 0, BOOST_DURATION_MS);
+    events.push({ type: 'BOOST' });
+  }
+
+  // Update Objects (compacted in place; split halves are appended and folded in after)
+  const { worldWidth } = settings;
+  const paddleX = input.handX * worldWidth;
+  const partner = settings.coop ? input.partner : undefined;
+  const partnerX = partner ? partner.handX * worldWidth : paddleX;
+  const motion = {
+    fall: settings.gravityMult * state.difficulty * slowMotion,
+    targetX: paddleX,
+    minX: SPAWN_MARGIN / 2,
+    maxX: worldWidth - SPAWN_MARGIN / 2
+  };
+  const count = objects.length;
+  let kept = 0;
+  for (let i = 0; i < count; i++) {
+    const obj = objects[i];
+    obj.prevX = obj.x;
+    obj.prevY = obj.y;
+    applyMotion(obj, motion);
+    if (magnet && obj.type === ObjectType.GOOD) {
+      // Tagged drops drift to their owner, the rest to whichever paddle is closer
+      const pullX = obj.owner === 1 || (obj.owner === undefined && Math.abs(partnerX - obj.x) < Math.abs(paddleX - obj.x)) ? partnerX : paddleX;
+      obj.x += Math.max(-MAGNET_MAX_SHIFT, Math.min(MAGNET_MAX_SHIFT, (pullX - obj.x) * MAGNET_PULL));
+    }
+    if (obj.y >= DESPAWN_Y) {
+      if (obj.type === ObjectType.GOOD) {
+        state.misses++;
+        if (state.adaptive) state.adaptive.misses++;
+        if (settings.missPenalty > 0) {
+          state.lives -= settings.missPenalty;
+          state.combo = 0;
+        }
+        events.push({ type: 'MISS', object: obj, penalty: settings.missPenalty });
+      }
+      pool.release(obj);
+      continue;
+    }
+
+    if (shouldSplit(obj)) {
+      const right = pool.acquire();
+      splitObject(obj, right, state.nextId++, state.nextId++);
+      objects.push(right);
+      events.push({ type: 'SPLIT', object: obj });
+    }
+    objects[kept++] = obj;
+  }
+  for (let i = count; i < objects.length; i++) objects[kept++] = objects[i];
+  objects.length = kept;
+
+  // Spawn Logic
+  const spawn = (
+    type: ObjectType, x: number, speed: number, motionPattern: MotionPattern, rng: () => number, powerUp?: PowerUpType
+  ) => {
+    const spawned = pool.acquire();
+    spawned.id = state.nextId++;
+    spawned.x = spawned.prevX = x;
+    spawned.y = spawned.prevY = SPAWN_Y;
+    spawned.radius = 20;
+    spawned.speed = speed;
+    spawned.type = type;
+    spawned.motion = motionPattern;
+    spawned.powerUp = undefined;
+    spawned.owner = undefined;
+    initMotion(spawned, motionPattern, rng);
+    if (type === ObjectType.POWERUP) {
+      spawned.powerUp = powerUp ?? POWERUP_TYPES[Math.floor(rng() * POWERUP_TYPES.length)];
+      spawned.variant = settings.powerUpVariants[spawned.powerUp];
+    } else if (type === ObjectType.CHARGE) {
+      spawned.variant = settings.chargeVariant;
+    } else {
+      const variants = type === ObjectType.BAD ? settings.badVariants : settings.goodVariants;
+      spawned.variant = variants[Math.floor(rng() * variants.length)];
+    }
+    objects.push(spawned);
+    events.push({ type: 'SPAWN', object: spawned });
+    return spawned;
+  };
+
+  const { boss } = state;
+  if (settings.script) {
+    const { drops } = settings.script;
+    while (state.scriptIndex < drops.length && drops[state.scriptIndex].atMs <= state.elapsedMs) {
+      const drop = drops[state.scriptIndex++];
+      if (drop.wave !== state.wave) {
+        state.wave = drop.wave;
+        events.push({ type: 'WAVE_START', wave: state.wave });
+      }
+      spawn(drop.type, drop.x, drop.speed, drop.motion, randomDrop, drop.powerUp);
+    }
+  } else if (boss) {
+    // The boss replaces the regular spawn timer: hazards come from its volleys, charges from above
+    const arena: BossArena = {
+      minX: SPAWN_MARGIN * 2,
+      maxX: worldWidth - SPAWN_MARGIN * 2,
+      // Co-op volleys take turns aiming at each paddle
+      targetX: boss.volleys % 2 === 1 ? partnerX : paddleX,
+      targetY: PADDLE_Y,
+      fall: motion.fall,
+      timeScale: slowMotion
+    };
+    moveBoss(boss, arena, FIXED_STEP_MS);
+    if (isBossEngaged(boss) && isChargeDue(boss)) {
+      boss.chargeTimer = 0;
+      spawn(ObjectType.CHARGE, random() * (worldWidth - SPAWN_MARGIN * 2) + SPAWN_MARGIN, CHARGE_SPEED, MotionPattern.STRAIGHT, random);
+    }
+    if (isBossEngaged(boss) && isVolleyDue(boss)) {
+      const pattern = getVolleyPattern(boss);
+      for (const shot of planVolley(boss, arena, random)) {
+        const hazard = spawn(ObjectType.BAD, shot.x, shot.speed, MotionPattern.STRAIGHT, random);
+        hazard.y = hazard.prevY = boss.y + VOLLEY_OFFSET_Y;
+        hazard.horizontalVel = shot.horizontalVel;
+      }
+      boss.volleyTimer = 0;
+      boss.volleys++;
+      events.push({ type: 'BOSS_VOLLEY', pattern });
+    }
+  } else {
+    state.spawnTimer += FIXED_STEP_MS;
+    // Adaptive runs scale spawn pace and hazard share with the controller's level instead of score
+    const spawnRate = state.adaptive
+      ? Math.max(200, settings.spawnRateBase / state.difficulty)
+      : Math.max(200, settings.spawnRateBase - (state.score * 3));
+    const hazardChance = state.adaptive
+      ? Math.min(MAX_ADAPTIVE_HAZARD_CHANCE, settings.hazardChance * state.difficulty)
+      : settings.hazardChance;
+    if (state.spawnTimer > spawnRate) {
+      state.spawnTimer = 0;
+      const roll = randomDrop();
+      const type = roll < POWERUP_CHANCE ? ObjectType.POWERUP
+        : roll < POWERUP_CHANCE + hazardChance ? ObjectType.BAD
+        : ObjectType.GOOD;
+      const x = randomDrop() * (worldWidth - SPAWN_MARGIN * 2) + SPAWN_MARGIN;
+      const speed = settings.minSpeed + randomDrop() * (settings.maxSpeed - settings.minSpeed);
+      const spawned = spawn(type, x, speed, pickMotion(type, state.difficulty, randomDrop), randomDrop);
+      if (settings.coop) {
+        const tag = randomDrop();
+        if (type === ObjectType.GOOD && tag < OWNER_TAG_CHANCE) spawned.owner = tag < OWNER_TAG_CHANCE / 2 ? 0 : 1;
+      }
+    }
+  }
+
+  // Collisions
+  let bossDefeated = false;
+  // Swept in the paddle's frame: each object's path from its start-of-tick position,
+  // shifted by however far the paddle moved, so neither fast drops nor fast swipes tunnel
+  const paddle = getPaddleRect(input.handX, paddleWidth, worldWidth);
+  const paddleShift = (input.handX - (state.lastHandX ?? input.handX)) * worldWidth;
+  const partnerPaddle = partner ? getPaddleRect(partner.handX, paddleWidth, worldWidth) : null;
+  const partnerShift = partner ? (partner.handX - (state.lastPartnerX ?? partner.handX)) * worldWidth : 0;
+  kept = 0;
+  for (let i = 0; i < objects.length; i++) {
+    const obj = objects[i];
+    // Tagged drops pass straight through the other player's paddle; the first paddle touched takes the rest
+    const ownHit = obj.owner !== 1
+      ? sweepCircleRoundedRect(obj.prevX + paddleShift, obj.prevY, obj.x, obj.y, obj.radius, paddle, PADDLE_CORNER_RADIUS)
+      : null;
+    const partnerHit = partnerPaddle && obj.owner !== 0
+      ? sweepCircleRoundedRect(obj.prevX + partnerShift, obj.prevY, obj.x, obj.y, obj.radius, partnerPaddle, PADDLE_CORNER_RADIUS)
+      : null;
+    const player = partnerHit && (!ownHit || partnerHit.t < ownHit.t) ? 1 : 0;
+    const hit = player === 1 ? partnerHit : ownHit;
+    if (!hit) {
+      // A hazard slipping past a paddle's edge this tick is a close call
+      const clearance = Math.min(Math.abs(obj.x - paddleX), Math.abs(obj.x - partnerX));
+      if (state.adaptive && obj.type === ObjectType.BAD && obj.prevY < PADDLE_Y && obj.y >= PADDLE_Y
+        && clearance - paddleWidth / 2 - obj.radius < NEAR_MISS_MARGIN) {
+        state.adaptive.nearMisses++;
+      }
+      objects[kept++] = obj;
+      continue;
+    }
+
+    if (obj.type === ObjectType.GOOD) {
+      const points = 5 + Math.floor(state.combo / 4) + (hit.zone === HitZone.CENTER ? PRECISION_BONUS : 0);
+      state.score += points;
+      state.combo++;
+      state.boostCharge = Math.min(BOOST_CATCHES, state.boostCharge + 1);
+      if (state.adaptive) state.adaptive.catches++;
+      events.push({ type: 'COLLECT', object: obj, points, zone: hit.zone, player, combo: state.combo });
+    } else if (obj.type === ObjectType.POWERUP && obj.powerUp) {
+      if (obj.powerUp === PowerUpType.EXTRA_LIFE) {
+        state.lives = Math.min(settings.maxLives, state.lives + 1);
+      } else {
+        effects[obj.powerUp] = POWERUP_DURATIONS[obj.powerUp];
+      }
+      events.push({ type: 'POWERUP', object: obj, powerUp: obj.powerUp });
+    } else if (obj.type === ObjectType.CHARGE) {
+      // Charges left over from a defeated boss are simply absorbed
+      if (state.boss) {
+        damageBoss(state.boss);
+        if (state.boss.health > 0) {
+          events.push({ type: 'BOSS_HIT', boss: state.boss });
+        } else {
+          const bonus = getBossBonus(state.boss);
+          state.score += bonus;
+          state.lives = Math.min(settings.maxLives, state.lives + 1);
+          events.push({ type: 'BOSS_DEFEATED', boss: state.boss, bonus });
+          state.boss = null;
+          bossDefeated = true;
+        }
+      }
+    } else if (effects[PowerUpType.SHIELD]) {
+      // Shield soaks exactly one hazard, combo survives
+      delete effects[PowerUpType.SHIELD];
+      if (state.adaptive) state.adaptive.hazards++;
+      events.push({ type: 'SHIELD_BLOCK', object: obj });
+    } else {
+      if (state.adaptive) state.adaptive.hazards++;
+      state.lives -= settings.hazardPenalty;
+      state.combo = 0;
+      events.push({ type: 'HAZARD', object: obj, penalty: settings.hazardPenalty, player });
+    }
+    pool.release(obj);
+  }
+  objects.length = kept;
+
+  // Scripted levels set their own pace, so only endless runs ramp up
+  if (state.adaptive) {
+    const adjustment = updateAdaptive(state.adaptive, state.difficulty, state.combo, FIXED_STEP_MS, state.elapsedMs);
+    if (adjustment) {
+      state.difficulty = adjustment.to;
+      events.push({ type: 'ADAPT', adjustment });
+    }
+  } else {
+    state.difficulty = settings.script ? 1 : 1 + Math.pow((state.score / 500) + (state.elapsedMs / 120000), settings.rampCurve);
+  }
+
+  // Each whole level crossed summons a boss (one at a time, so a long fight delays the next).
+  // Levels skipped by the defeat bonus itself don't count.
+  if (!settings.script && !state.boss && Math.floor(state.difficulty) > state.bossLevel) {
+    state.bossLevel = Math.floor(state.difficulty);
+    if (!bossDefeated) {
+      state.boss = createBoss(state.bossLevel, settings.boss.name, settings.boss.variant, worldWidth / 2);
+      events.push({ type: 'BOSS_SPAWN', boss: state.boss });
+    }
+  }
+
+  state.lastHandX = input.handX;
+  state.lastPartnerX = partner ? partner.handX : null;
+  state.isCleared = state.lives > 0 && !!settings.script
+    && state.scriptIndex >= settings.script.drops.length
+    && state.elapsedMs >= settings.script.endMs
+    && objects.length === 0;
+  state.isOver = state.lives <= 0 || state.isCleared;
+  if (state.isCleared) events.push({ type: 'LEVEL_COMPLETE', score: Math.floor(state.score) });
+  else if (state.isOver) events.push({ type: 'GAME_OVER', score: Math.floor(state.score) });
+};
@@ -1,207 +1,215 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GameState, GameObject, ObjectType, InputMode, GameTheme, PlayerAvatar, GameDifficulty } from '../types';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import { InputMode, GameTheme, PlayerAvatar, GameDifficulty, RunRecording, ReplayLog, ActiveEffect, PowerUpType, RuleSet, LevelScript, CustomDifficulty, AdaptiveAdjustment, GameState, EffectsIntensity, Pilot, TrackingConfig, FrameSourceSpec } from '../types';
 import VisionTracker from './VisionTracker';
 import HUD from './HUD';
 import { audioEngine } from './AudioEngine';
+import {
+  SimulationEvent, createSimulation, advanceSimulation, fitWorldWidth, DEFAULT_WORLD_WIDTH, WORLD_HEIGHT, POWERUP_DURATIONS, BOOST_CATCHES
+} from './GameSimulation';
+import { THEME_DATA, INPUT_MODES, buildSimulationSettings } from './GameConfig';
+import { renderWorld, renderGhost } from './GameRenderer';
+import { ObjectPool } from './ObjectPool';
+import { packInput, unpackInput, appendInput, createGhostRunner } from './Replay';
+import { validateLevelScript } from './LevelScripts';
+import { useCanvasViewport, applyViewport } from './Viewport';
+import { ParticleSystem } from './ParticleSystem';
+import { PauseOverlay } from './PauseControl';
+import { playEventFeedback } from './EventFeedback';
+import { createPaddleInputs, getBoostHint } from './InputProviders';
+import { usePlayLoop } from './PlayLoop';
 
 interface GameWorldProps {
-  onGameOver: (score: number) => void;
+  onGameOver: (score: number, recording: RunRecording, isCleared: boolean) => void;
+  onExit: () => void;
   highScore: number;
   inputMode: InputMode;
   theme: GameTheme;
   gameDifficulty: GameDifficulty;
+  customDifficulty?: CustomDifficulty;
+  adaptive?: boolean;
+  ruleSet: RuleSet;
+  level?: LevelScript;
   avatar: PlayerAvatar;
+  partner?: Pilot; // Co-op: a second paddle in the same field (see createPaddleInputs)
+  seed: number;
+  ghostReplay?: ReplayLog | null;
+  ghostAvatar?: PlayerAvatar;
+  effectsIntensity: EffectsIntensity;
+  handLostTimeoutMs: number; // VISION mode only; 0 never auto-pauses
+  trackingConfig: TrackingConfig;
+  frameSource: FrameSourceSpec;
+  fixedAspect?: boolean; // Seeded challenges keep the classic field so every pilot gets the same run
 }
 
-const THEME_DATA: Record<GameTheme, any> = {
-  [GameTheme.COSMIC]: { accent: '#60a5fa', gravityMult: 0.9, background: 'radial-gradient(circle at center, #1e1b4b, #020617)', good: ['💎', '✨', '☄️'], bad: ['🪨', '🌑', '💥'] },
-  [GameTheme.NEON_CITY]: { accent: '#f472b6', gravityMult: 1.1, background: 'linear-gradient(to bottom, #2e1065, #000000)', good: ['💾', '⚡', '🔋'], bad: ['👾', '💀', '🔥'] },
-  [GameTheme.NATURE]: { accent: '#4ade80', gravityMult: 0.7, background: 'linear-gradient(to bottom, #ecfdf5, #064e3b)', good: ['🍎', '🍒', '🌻'], bad: ['🕸️', '🍂', '🥀'] },
-  [GameTheme.URBAN_RAIN]: { accent: '#94a3b8', gravityMult: 1.3, background: 'linear-gradient(to bottom, #334155, #0f172a)', good: ['☂️', '☕', '💎'], bad: ['⚡', '🚧', '💥'] },
-  [GameTheme.MIND_LAB]: { accent: '#c084fc', gravityMult: 1.0, background: 'radial-gradient(circle, #2d064e, #000000)', good: ['🧠', '🧩', '🧪'], bad: ['🛑', '⚠️', '📉'] },
-  [GameTheme.RETRO]: { accent: '#fbbf24', gravityMult: 1.2, background: '#000000', good: ['⭐', '🍄', '🍒'], bad: ['👻', '💣', '👾'] }
-};
-
-const DIFFICULTY_SETTINGS = {
-  [GameDifficulty.EASY]: { initialLives: 5, growth: 0.03, hazardPenalty: 1, spawnRateBase: 1200 },
-  [GameDifficulty.MEDIUM]: { initialLives: 3, growth: 0.1, hazardPenalty: 1, spawnRateBase: 1000 },
-  [GameDifficulty.HARD]: { initialLives: 1, growth: 0.25, hazardPenalty: 1, spawnRateBase: 700 }
-};
-
-const GameWorld: React.FC<GameWorldProps> = ({ onGameOver, highScore, inputMode, theme, gameDifficulty, avatar }) => {
+const GameWorld: React.FC<GameWorldProps> = ({ onGameOver, onExit, highScore, inputMode, theme, gameDifficulty, customDifficulty, adaptive, ruleSet, level, avatar, partner, seed, ghostReplay, ghostAvatar, effectsIntensity, handLostTimeoutMs, trackingConfig, frameSource, fixedAspect }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isAudioMuted, setIsAudioMuted] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
+  const [worldWidth, setWorldWidth] = useState<number | null>(null);
+
+  // The playfield matches the container's aspect ratio, fixed for the whole run so it stays replayable
+  useLayoutEffect(() => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    setWorldWidth(!fixedAspect && rect && rect.height > 0 ? fitWorldWidth(rect.width / rect.height) : DEFAULT_WORLD_WIDTH);
+  }, [fixedAspect]);
   
+  // Scripts may come from disk or user imports, so they are checked before anything runs
+  const levelIssues = useMemo(() => level ? validateLevelScript(level) : [], [level]);
+  const settings = useMemo(
+    () => buildSimulationSettings({
+      theme,
+      difficulty: gameDifficulty,
+      customDifficulty,
+      adaptive,
+      ruleSet,
+      level: levelIssues.length === 0 ? level : undefined,
+      worldWidth: worldWidth ?? DEFAULT_WORLD_WIDTH,
+      coop: !!partner
+    }),
+    [theme, gameDifficulty, customDifficulty, adaptive, ruleSet, level, levelIssues, worldWidth, partner]
+  );
+  const viewport = useCanvasViewport(canvasRef, settings.worldWidth);
+
   // High-Frequency Mutable State (Bypasses React rendering)
   const engine = useRef({
-    score: 0,
-    lives: DIFFICULTY_SETTINGS[gameDifficulty].initialLives,
-    combo: 0,
-    objects: [] as GameObject[],
-    handX: 0.5,
-    isHandDetected: true,
-    difficulty: 1,
-    spawnTimer: 0,
-    lastTime: 0,
-    startTime: Date.now()
+    sim: createSimulation(settings, seed),
+    replayInputs: [] as number[],
+    adaptiveLog: [] as AdaptiveAdjustment[],
+    // Recycled every tick so the live loop stays allocation-free
+    pool: new ObjectPool(),
+    events: [] as SimulationEvent[]
   });
 
+  // Start from a clean simulation once the playfield size is settled
+  useEffect(() => {
+    engine.current.sim = createSimulation(settings, seed);
+    engine.current.replayInputs = [];
+    engine.current.adaptiveLog = [];
+  }, [settings, seed]);
+
+  // Visual feedback only: lives outside the simulation, so it never affects replays
+  const particles = useMemo(() => new ParticleSystem(THEME_DATA[theme].effects, effectsIntensity), [theme, effectsIntensity]);
+
+  // Personal-best run on the same seed, advanced tick-for-tick alongside the live simulation
+  const ghost = useMemo(() => ghostReplay ? createGhostRunner(ghostReplay) : null, [ghostReplay]);
+
   // UI state for HUD only (Updates at 10Hz to save CPU)
-  const [uiState, setUiState] = useState({ score: 0, lives: 0, combo: 0, difficulty: 1, currentTime: 0 });
+  const [uiState, setUiState] = useState({ score: 0, lives: 0, combo: 0, misses: 0, boost: 0, wave: 0, difficulty: 1, currentTime: 0, ghostDelta: null as number | null, activeEffects: [] as ActiveEffect[], boss: null as GameState['boss'], adaptive: null as GameState['adaptive'] });
 
   useEffect(() => {
     audioEngine.playThemeMusic(theme);
     return () => audioEngine.stopAll();
   }, [theme]);
 
-  const handleHandUpdate = useCallback((x: number, detected: boolean) => {
-    engine.current.handX = x;
-    engine.current.isHandDetected = detected;
-  }, []);
+  // One provider per paddle; co-op adds player 2's
+  const paddleInputs = useMemo(() => createPaddleInputs(inputMode, partner ? 2 : 1), [inputMode, partner]);
 
-  useEffect(() => {
-    if (inputMode !== InputMode.CURSOR) return;
-    const handleMove = (e: MouseEvent) => {
-      if (isPaused) return;
-      const rect = containerRef.current?.getBoundingClientRect();
-      if (!rect) return;
-      engine.current.handX = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
-    };
-    window.addEventListener('mousemove', handleMove);
-    return () => window.removeEventListener('mousemove', handleMove);
-  }, [inputMode, isPaused]);
+  const step = () => {
+    const e = engine.current;
+    const [own, other] = paddles;
+    // Quantize before stepping so the recorded log replays bit-for-bit; either co-op player can spend the shared meter
+    const packed = packInput({ handX: own.handX, isHandDetected: own.isHandDetected, partner: other, boost: paddles.some(p => p.boost) });
+    appendInput(e.replayInputs, packed);
+    e.events.length = 0;
+    advanceSimulation(e.sim, unpackInput(packed), settings, e.pool, e.events);
+    for (const event of e.events) {
+      playEventFeedback(event, theme, particles);
+      if (event.type === 'ADAPT') e.adaptiveLog.push(event.adjustment);
+    }
+    ghost?.step();
 
-  useEffect(() => {
+    if (!e.sim.isOver) return false;
+    onGameOver(Math.floor(e.sim.score), { seed, ticks: e.sim.tick, inputs: e.replayInputs, worldWidth: settings.worldWidth, adaptiveLog: settings.adaptive ? e.adaptiveLog : undefined }, e.sim.isCleared);
+    return true;
+  };
+
+  const render = (dt: number) => {
     const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
-
-    let frameId: number;
-    const settings = DIFFICULTY_SETTINGS[gameDifficulty];
     const tData = THEME_DATA[theme];
+    particles.update(dt);
+    applyViewport(ctx, viewport);
+    const [shakeX, shakeY] = particles.getShakeOffset();
+    ctx.translate(shakeX, shakeY);
+    renderWorld(ctx, engine.current.sim, { ...paddles[0], partner: paddles[1] }, settings, tData, avatar, partner?.avatar);
+    const ghostInput = ghost?.getInput();
+    if (ghostInput) renderGhost(ctx, ghostInput, settings, tData, ghostAvatar ?? avatar);
+    particles.render(ctx, settings.worldWidth, WORLD_HEIGHT);
+  };
 
-    const loop = (time: number) => {
-      if (isPaused) {
-        frameId = requestAnimationFrame(loop);
-        return;
-      }
-
-      const dt = time - engine.current.lastTime;
-      engine.current.lastTime = time;
-      const step = Math.min(dt, 32) / 16.67; // Normalize to 60fps
-
-      // Physics & Game Logic
-      const e = engine.current;
-      
-      // Update Objects
-      e.objects = e.objects.map(obj => ({
-        ...obj,
-        y: obj.y + obj.speed * step * tData.gravityMult * e.difficulty
-      })).filter(obj => obj.y < 650);
-
-      // Spawn Logic
-      e.spawnTimer += dt;
-      let spawnRate = Math.max(200, settings.spawnRateBase - (e.score * 3));
-      if (e.spawnTimer > spawnRate) {
-        e.spawnTimer = 0;
-        const isBad = Math.random() < 0.22;
-        e.objects.push({
-          id: Math.random().toString(),
-          x: Math.random() * 700 + 50,
-          y: -50,
-          radius: 20,
-          speed: 4 + Math.random() * 3,
-          type: isBad ? ObjectType.BAD : ObjectType.GOOD,
-          variant: isBad ? tData.bad[Math.floor(Math.random()*3)] : tData.good[Math.floor(Math.random()*3)]
-        });
-      }
-
-      // Collisions
-      const pw = 140, ph = 24;
-      const px = e.handX * 800 - pw/2, py = 600 - 110;
-
-      e.objects = e.objects.filter(obj => {
-        const hit = obj.x > px && obj.x < px + pw && obj.y > py && obj.y < py + ph;
-        if (hit) {
-          if (obj.type === ObjectType.GOOD) {
-            e.score += 5 + Math.floor(e.combo / 4);
-            e.combo++;
-            audioEngine.playCollect(theme);
-          } else {
-            e.lives -= settings.hazardPenalty;
-            e.combo = 0;
-            audioEngine.playHazard(theme);
-          }
-          return false;
-        }
-        return true;
-      });
-
-      e.difficulty = 1 + (e.score / 500) + ((Date.now() - e.startTime) / 120000);
-
-      if (e.lives <= 0) {
-        onGameOver(Math.floor(e.score));
-        return;
-      }
-
-      // --- RENDERING (Direct Canvas Calls - Zero React Overhead) ---
-      ctx.clearRect(0, 0, 800, 600);
-      
-      // Render Paddle
-      ctx.shadowBlur = e.isHandDetected ? 30 : 0;
-      ctx.shadowColor = tData.accent;
-      ctx.fillStyle = e.isHandDetected ? 'white' : '#333';
-      ctx.beginPath();
-      ctx.roundRect(px, py, pw, ph, 12);
-      ctx.fill();
-      ctx.shadowBlur = 0;
-      
-      // Avatar
-      ctx.font = '40px Inter';
-      ctx.textAlign = 'center';
-      ctx.fillText(avatar.emoji, px + pw/2, py - 15);
-
-      // Render Objects
-      ctx.font = '32px Inter';
-      e.objects.forEach(obj => {
-        ctx.fillText(obj.variant, obj.x, obj.y);
-      });
-
-      frameId = requestAnimationFrame(loop);
-    };
-
-    frameId = requestAnimationFrame(loop);
-    
-    // Low-frequency UI sync (10 times per second)
-    const uiInterval = setInterval(() => {
-      const e = engine.current;
-      setUiState({
-        score: e.score,
-        lives: e.lives,
-        combo: e.combo,
-        difficulty: e.difficulty,
-        currentTime: (Date.now() - e.startTime) / 1000
-      });
-    }, 100);
-
-    return () => {
-      cancelAnimationFrame(frameId);
-      clearInterval(uiInterval);
-    };
-  }, [isPaused, theme, avatar, onGameOver, gameDifficulty]);
+  const syncUi = () => {
+    const { sim } = engine.current;
+    setUiState({
+      score: sim.score,
+      lives: sim.lives,
+      combo: sim.combo,
+      misses: sim.misses,
+      boost: sim.boostCharge / BOOST_CATCHES,
+      wave: sim.wave,
+      difficulty: sim.difficulty,
+      currentTime: sim.elapsedMs / 1000,
+      ghostDelta: ghost ? Math.floor(sim.score) - Math.floor(ghost.getScore()) : null,
+      activeEffects: (Object.keys(sim.effects) as PowerUpType[]).map(type => ({
+        type,
+        remainingMs: sim.effects[type]!,
+        durationMs: POWERUP_DURATIONS[type]
+      })),
+      boss: sim.boss && { name: sim.boss.name, variant: sim.boss.variant, health: sim.boss.health, maxHealth: sim.boss.maxHealth },
+      adaptive: sim.adaptive && { difficulty: sim.difficulty, performance: sim.adaptive.performance, trend: sim.adaptive.trend }
+    });
+  };
+
+  const { pauseReason, countdown, isPaused, togglePause, paddles, handleHandUpdate, handleGesture } = usePlayLoop({
+    inputMode,
+    paddleInputs,
+    handLostTimeoutMs,
+    isReady: levelIssues.length === 0 && worldWidth !== null,
+    canvasRef,
+    viewport,
+    worldWidth: settings.worldWidth,
+    step,
+    render,
+    syncUi
+  });
+
+  const hudState: GameState = {
+    handX: paddles[0].handX,
+    isHandDetected: paddles[0].isHandDetected,
+    score: uiState.score,
+    lives: uiState.lives,
+    combo: uiState.combo,
+    misses: uiState.misses,
+    boost: uiState.boost,
+    boostHint: getBoostHint(inputMode, 0),
+    wave: settings.script ? { current: uiState.wave, total: settings.script.waveCount } : undefined,
+    difficulty: uiState.difficulty,
+    gameDifficulty,
+    currentTime: uiState.currentTime,
+    ghostDelta: uiState.ghostDelta,
+    activeEffects: uiState.activeEffects,
+    boss: uiState.boss,
+    adaptive: uiState.adaptive,
+    highScore,
+    maxLives: settings.maxLives,
+    inputMode,
+    theme,
+    avatar,
+    partnerAvatar: partner?.avatar,
+    isPaused
+  };
 
   return (
     <div className="relative w-full h-full flex flex-col md:flex-row gap-6 p-6 max-w-7xl mx-auto overflow-hidden">
       <div className="flex flex-col gap-6 w-full md:w-80">
-        <div className={`p-1 rounded-3xl overflow-hidden border-2 transition-all ${engine.current.isHandDetected ? 'border-green-500 shadow-[0_0_20px_rgba(34,197,94,0.3)]' : 'border-zinc-800'}`}>
+        <div className={`p-1 rounded-3xl overflow-hidden border-2 transition-all ${paddles[0].isHandDetected ? 'border-green-500 shadow-[0_0_20px_rgba(34,197,94,0.3)]' : 'border-zinc-800'}`}>
           {inputMode === InputMode.VISION ? (
-            <VisionTracker onHandUpdate={handleHandUpdate} config={{sensitivity: 1, threshold: 0.1}} />
+            <VisionTracker onHandUpdate={handleHandUpdate} onGesture={handleGesture} config={trackingConfig} source={frameSource} regions={partner ? 2 : 1} />
           ) : (
             <div className="w-full h-40 bg-zinc-950 flex flex-col items-center justify-center border border-white/5 rounded-2xl">
-              <span className="text-4xl mb-2">🖱️</span>
-              <p className="text-[10px] font-black text-zinc-600 uppercase tracking-widest">Manual Override</p>
+              <span className="text-4xl mb-2">{INPUT_MODES[inputMode].icon}</span>
+              <p className="text-[10px] font-black text-zinc-600 uppercase tracking-widest">Manual Override • {INPUT_MODES[inputMode].label}</p>
+              {partner && <p className="text-[10px] font-black text-zinc-600 uppercase tracking-widest">⌨️ {partner.name}: ← →</p>}
             </div>
           )}
         </div>
@@ -211,41 +219,48 @@ const GameWorld: React.FC<GameWorldProps> = ({ onGameOver, highScore, inputMode,
              <div className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center border border-white/10">{avatar.emoji}</div>
              <div className="text-xs font-black uppercase tracking-widest text-zinc-400">{avatar.name}</div>
            </div>
+           {partner && (
+             <div className="flex items-center gap-3">
+               <div className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center border border-white/10">{partner.avatar.emoji}</div>
+               <div className="text-xs font-black uppercase tracking-widest text-zinc-400">{partner.name}</div>
+             </div>
+           )}
            <button 
-             onClick={() => setIsPaused(!isPaused)}
+             onClick={togglePause}
              className="w-full py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-white transition-all"
            >
-             {isPaused ? 'RESUME LINK' : 'SUSPEND SYNC'}
+             {pauseReason ? 'RESUME LINK' : 'SUSPEND SYNC'}
            </button>
         </div>
       </div>
 
-      <div ref={containerRef} className="flex-1 relative bg-black rounded-[3rem] border border-white/5 overflow-hidden shadow-2xl">
-        <canvas ref={canvasRef} width={800} height={600} className="w-full h-full object-contain" />
+      <div ref={containerRef} className="flex-1 relative bg-black rounded-[3rem] border border-white/5 overflow-hidden shadow-2xl touch-none">
+        <canvas ref={canvasRef} className="w-full h-full" />
         
         {/* Pass ONLY uiState to HUD to prevent high-frequency re-renders of the whole GameWorld */}
-        <HUD state={{ 
-            ...engine.current, 
-            score: uiState.score, 
-            lives: uiState.lives, 
-            combo: uiState.combo, 
-            difficulty: uiState.difficulty,
-            currentTime: uiState.currentTime,
-            highScore,
-            maxLives: DIFFICULTY_SETTINGS[gameDifficulty].initialLives,
-            inputMode,
-            theme,
-            avatar,
-            isPaused,
-            objects: []
-          } as any} 
-        />
+        <HUD state={hudState} />
         
-        {isPaused && (
-          <div className="absolute inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center">
-             <div className="text-white font-black text-6xl italic tracking-tighter animate-pulse">PAUSED</div>
+        {levelIssues.length > 0 && (
+          <div className="absolute inset-0 bg-red-950/90 backdrop-blur-md flex items-center justify-center p-10">
+            <div className="max-w-lg w-full space-y-6 text-left">
+              <div>
+                <h3 className="text-3xl font-black italic tracking-tighter text-white">LEVEL SCRIPT REJECTED</h3>
+                <p className="text-[10px] font-black text-red-300 uppercase tracking-widest">{level?.name || 'Unnamed level'} • {levelIssues.length} issue(s)</p>
+              </div>
+              <ul className="max-h-60 overflow-y-auto space-y-1 font-mono text-xs text-red-100 bg-black/40 rounded-2xl p-4 border border-red-500/20">
+                {levelIssues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+              <button
+                onClick={onExit}
+                className="w-full py-4 bg-white text-zinc-950 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+              >
+                Return to Core
+              </button>
+            </div>
           </div>
         )}
+
+        <PauseOverlay pauseReason={pauseReason} countdown={countdown} showGestures={inputMode === InputMode.VISION} />
       </div>
     </div>
   );
@@ -0,0 +1,54 @@
+import React, { useCallback, useRef } from 'react';
+import { GestureType, TrackingConfig, FrameSourceSpec } from '../types';
+import VisionTracker from './VisionTracker';
+import { GESTURES } from './GameConfig';
+
+export interface GestureAction {
+  gesture: GestureType;
+  label: string;
+  run: () => void;
+}
+
+interface GestureControlsProps {
+  actions: GestureAction[]; // Gestures left out do nothing here
+  trackingConfig: TrackingConfig;
+  frameSource: FrameSourceSpec;
+}
+
+// The swipe that confirmed the previous screen can still be moving when this one mounts
+const ARM_DELAY_MS = 1000;
+
+// Menus only want gestures, not positions
+const ignoreHandUpdate = () => {};
+
+// A lens preview that runs a screen's buttons by gesture, so VISION players never need the mouse.
+// Mount it only in VISION mode: it opens the camera.
+const GestureControls: React.FC<GestureControlsProps> = ({ actions, trackingConfig, frameSource }) => {
+  const mountedAt = useRef(performance.now());
+
+  const handleGesture = useCallback((gesture: GestureType) => {
+    if (performance.now() - mountedAt.current < ARM_DELAY_MS) return;
+    actions.find(a => a.gesture === gesture)?.run();
+  }, [actions]);
+
+  return (
+    <div className="w-full max-w-md flex items-center gap-4 bg-zinc-900/60 p-3 rounded-3xl border border-white/5">
+      <div className="w-40 flex-shrink-0">
+        <VisionTracker onHandUpdate={ignoreHandUpdate} onGesture={handleGesture} config={trackingConfig} source={frameSource} />
+      </div>
+      <div className="flex-1 space-y-2">
+        {actions.map(({ gesture, label }) => (
+          <div key={gesture} className="flex items-center gap-3 bg-black/40 px-3 py-2 rounded-2xl border border-white/5">
+            <span className="text-xl">{GESTURES[gesture].icon}</span>
+            <div className="text-left">
+              <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">{GESTURES[gesture].label}</p>
+              <p className="text-white text-[10px] font-black uppercase tracking-widest">{label}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GestureControls;
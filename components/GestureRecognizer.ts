@@ -0,0 +1,96 @@
+import { GestureType } from '../types';
+import { HandReading } from './HandAnalyzer';
+
+// A fist covers well under the open palm's area but fills its bounding box more densely
+const FIST_AREA_RATIO = 0.6;
+const FIST_MIN_FILL = 0.7;
+const FIST_HOLD_MS = 300;
+// The open-palm reference follows slow changes (leaning in, stepping back) but not a quick clench
+const OPEN_AREA_RATE = 0.1;
+// Raised means the centroid sits in the top quarter; lowering past the reset line re-arms it
+const RAISE_Y = 0.25;
+const RAISE_RESET_Y = 0.45;
+const RAISE_HOLD_MS = 250;
+// A swipe crosses this much of the region within the window, measured on the raw centroid
+const SWIPE_DISTANCE = 0.35;
+const SWIPE_WINDOW_MS = 250;
+// Nothing else fires from a region this soon after a gesture, so one motion never reads as two
+const GESTURE_COOLDOWN_MS = 600;
+
+interface RegionState {
+  openArea: number;
+  fistSince: number | null;
+  fistLatched: boolean; // Fired; the hand must open again before the next fist
+  raiseSince: number | null;
+  raiseLatched: boolean;
+  trail: { t: number; x: number }[];
+  cooldownUntil: number;
+}
+
+const createRegionState = (): RegionState => ({
+  openArea: 0,
+  fistSince: null,
+  fistLatched: false,
+  raiseSince: null,
+  raiseLatched: false,
+  trail: [],
+  cooldownUntil: 0
+});
+
+// Turns the per-frame blob shape of each region into discrete gestures. Timing comes from the caller's
+// clock (ms), so recordings and synthetic clips recognise the same way as the live camera.
+export const createGestureRecognizer = () => {
+  const regions: RegionState[] = [];
+
+  const recognize = (hand: HandReading, region: number, now: number): GestureType | null => {
+    const s = regions[region] = regions[region] ?? createRegionState();
+    if (!hand.detected) {
+      // Leaving the lens starts every gesture over; the open-palm reference is kept for the return
+      s.fistSince = null;
+      s.fistLatched = false;
+      s.raiseSince = null;
+      s.raiseLatched = false;
+      s.trail.length = 0;
+      return null;
+    }
+
+    const { area, x, y, fill } = hand.shape;
+    const clenched = s.openArea > 0 && area < s.openArea * FIST_AREA_RATIO && fill >= FIST_MIN_FILL;
+    if (!clenched) {
+      s.fistSince = null;
+      s.fistLatched = false;
+      s.openArea = s.openArea > 0 ? s.openArea + (area - s.openArea) * OPEN_AREA_RATE : area;
+    } else if (s.fistSince === null) {
+      s.fistSince = now;
+    }
+
+    if (y < RAISE_Y) s.raiseSince = s.raiseSince ?? now;
+    else s.raiseSince = null;
+    if (y > RAISE_RESET_Y) s.raiseLatched = false;
+
+    s.trail.push({ t: now, x });
+    while (s.trail.length > 0 && now - s.trail[0].t > SWIPE_WINDOW_MS) s.trail.shift();
+
+    if (now < s.cooldownUntil) return null;
+
+    let gesture: GestureType | null = null;
+    const travel = x - s.trail[0].x;
+    if (Math.abs(travel) >= SWIPE_DISTANCE) {
+      gesture = travel > 0 ? GestureType.SWIPE_RIGHT : GestureType.SWIPE_LEFT;
+    } else if (s.fistSince !== null && !s.fistLatched && now - s.fistSince >= FIST_HOLD_MS) {
+      gesture = GestureType.FIST;
+      s.fistLatched = true;
+    } else if (s.raiseSince !== null && !s.raiseLatched && now - s.raiseSince >= RAISE_HOLD_MS) {
+      gesture = GestureType.RAISE;
+      s.raiseLatched = true;
+    }
+
+    if (gesture) {
+      s.cooldownUntil = now + GESTURE_COOLDOWN_MS;
+      s.trail.length = 0;
+    }
+    return gesture;
+  };
+
+  return { recognize };
+};
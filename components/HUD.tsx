@@ -1,11 +1,23 @@
 
 import React, { useEffect, useState } from 'react';
-import { GameState } from '../types';
+import { GameState, PowerUpType } from '../types';
+import { THEME_DATA } from './GameConfig';
+import { TARGET_LOW, TARGET_HIGH } from './AdaptiveDifficulty';
 
 interface HUDProps {
   state: GameState;
 }
 
+const EFFECT_LABELS: Record<PowerUpType, string> = {
+  [PowerUpType.SHIELD]: 'Shield',
+  [PowerUpType.MAGNET]: 'Magnet',
+  [PowerUpType.SLOW_MOTION]: 'Slow-Mo',
+  [PowerUpType.WIDE_PADDLE]: 'Wide',
+  [PowerUpType.EXTRA_LIFE]: 'Life'
+};
+
+const TREND_ICONS = { [-1]: '▼', 0: '■', 1: '▲' };
+
 const HUD: React.FC<HUDProps> = ({ state }) => {
   const [visValues, setVisValues] = useState<number[]>([]);
 
@@ -33,10 +45,26 @@ const HUD: React.FC<HUDProps> = ({ state }) => {
              <div className="text-zinc-500 text-[10px] font-black tracking-widest uppercase mb-1">Current Sync</div>
              <div className="text-5xl font-black text-white italic tracking-tighter">{Math.floor(state.score)}</div>
           </div>
-          <div className="bg-black/40 px-4 py-2 rounded-2xl border border-white/5 w-fit">
-            <span className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Global Record: </span>
-            <span className="text-white font-black text-sm">{state.highScore}</span>
-          </div>
+          {state.rival ? (
+            <div className={`bg-black/40 px-4 py-2 rounded-2xl border w-fit ${state.score >= state.rival.score ? 'border-green-500/30' : 'border-red-500/30'}`}>
+              <span className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">{state.rival.emoji} {state.rival.name}: </span>
+              <span className="text-white font-black text-sm">{Math.floor(state.rival.score)}</span>
+              <span className="text-zinc-500 text-[9px] font-black uppercase tracking-widest"> • {Math.max(0, Math.floor(state.rival.lives))} Lives</span>
+            </div>
+          ) : (
+            <div className="bg-black/40 px-4 py-2 rounded-2xl border border-white/5 w-fit">
+              <span className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Global Record: </span>
+              <span className="text-white font-black text-sm">{state.highScore}</span>
+            </div>
+          )}
+          {state.ghostDelta != null && (
+            <div className={`bg-black/40 px-4 py-2 rounded-2xl border w-fit ${state.ghostDelta >= 0 ? 'border-green-500/30' : 'border-red-500/30'}`}>
+              <span className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">👻 Ghost: </span>
+              <span className={`font-black text-sm ${state.ghostDelta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {state.ghostDelta >= 0 ? '+' : ''}{state.ghostDelta} {state.ghostDelta >= 0 ? 'AHEAD' : 'BEHIND'}
+              </span>
+            </div>
+          )}
         </div>
 
         <div className="flex flex-col items-end gap-6">
@@ -50,6 +78,12 @@ const HUD: React.FC<HUDProps> = ({ state }) => {
               />
             ))}
           </div>
+          {state.misses !== undefined && (
+            <div className="bg-black/40 px-4 py-2 rounded-2xl border border-white/5">
+              <span className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">Missed: </span>
+              <span className={`font-black text-sm ${state.misses > 0 ? 'text-red-400' : 'text-white'}`}>{state.misses}</span>
+            </div>
+          )}
           <div className="bg-white/10 backdrop-blur-md px-5 py-3 rounded-2xl border border-white/10 text-center min-w-32 flex items-center justify-center gap-4">
             <div className="text-left">
               <p className="text-zinc-500 text-[9px] font-black uppercase tracking-[0.2em] mb-0.5">Elapsed</p>
@@ -67,15 +101,65 @@ const HUD: React.FC<HUDProps> = ({ state }) => {
               ))}
             </div>
           </div>
+
+          {/* Active Power-Ups */}
+          {state.activeEffects && state.activeEffects.length > 0 && (
+            <div className="flex flex-col items-end gap-2">
+              {state.activeEffects.map(effect => (
+                <div key={effect.type} className="bg-black/60 backdrop-blur-md pl-3 pr-4 py-2 rounded-2xl border border-white/10 flex items-center gap-3 min-w-40">
+                  <span className="text-2xl">{THEME_DATA[state.theme].powerUps[effect.type]}</span>
+                  <div className="flex-1">
+                    <div className="flex justify-between gap-3">
+                      <span className="text-zinc-400 text-[9px] font-black uppercase tracking-widest">{EFFECT_LABELS[effect.type]}</span>
+                      <span className="text-white text-[10px] font-black font-mono">{(effect.remainingMs / 1000).toFixed(1)}s</span>
+                    </div>
+                    <div className="h-1 mt-1 bg-white/10 rounded-full overflow-hidden">
+                      <div className="h-full bg-green-400 rounded-full" style={{ width: `${(effect.remainingMs / effect.durationMs) * 100}%` }} />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Boss Health */}
+      {state.boss && (
+        <div className="absolute top-10 left-1/2 -translate-x-1/2 w-80 bg-black/60 backdrop-blur-md px-5 py-3 rounded-2xl border border-red-500/30 shadow-xl animate-in fade-in slide-in-from-top duration-500">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <span className="text-red-400 text-[10px] font-black uppercase tracking-widest">{state.boss.variant} {state.boss.name}</span>
+            <span className="text-white text-[10px] font-black font-mono">{state.boss.health}/{state.boss.maxHealth}</span>
+          </div>
+          <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-red-500 rounded-full transition-all duration-300" style={{ width: `${(state.boss.health / state.boss.maxHealth) * 100}%` }} />
+          </div>
+          <div className="text-zinc-500 text-[8px] font-black uppercase tracking-widest mt-1.5">Catch {THEME_DATA[state.theme].charge} to drain</div>
+        </div>
+      )}
+
       {/* Footer Row */}
       <div className="flex justify-between items-end">
         <div className="flex items-center gap-6">
            <div className="w-16 h-16 rounded-2xl bg-white/10 backdrop-blur-xl border border-white/10 flex items-center justify-center text-4xl shadow-2xl">
              {state.avatar.emoji}
            </div>
+           {state.partnerAvatar && (
+             <div className="w-16 h-16 -ml-4 rounded-2xl bg-white/10 backdrop-blur-xl border border-white/10 flex items-center justify-center text-4xl shadow-2xl">
+               {state.partnerAvatar.emoji}
+             </div>
+           )}
+           {state.boost !== undefined && (
+             <div className="w-36">
+               <div className="flex justify-between text-[9px] font-black uppercase tracking-widest">
+                 <span className={state.boost >= 1 ? 'text-green-400 animate-pulse' : 'text-zinc-500'}>Boost</span>
+                 <span className="text-zinc-500">{state.boost >= 1 ? state.boostHint : `${Math.round(state.boost * 100)}%`}</span>
+               </div>
+               <div className="h-1.5 mt-1 bg-white/10 rounded-full overflow-hidden">
+                 <div className="h-full bg-green-400 rounded-full transition-all duration-300" style={{ width: `${state.boost * 100}%` }} />
+               </div>
+             </div>
+           )}
            {state.combo > 1 && (
              <div className="animate-in slide-in-from-left duration-300">
                <div className="text-green-400 text-5xl font-black italic tracking-tighter drop-shadow-2xl">x{state.combo}</div>
@@ -85,11 +169,31 @@ const HUD: React.FC<HUDProps> = ({ state }) => {
         </div>
 
         <div className="text-right space-y-1">
+          {state.adaptive && (
+            <div className="bg-black/60 backdrop-blur-md px-4 py-2 rounded-2xl border border-purple-500/30 w-fit ml-auto mb-2">
+              <div className="flex items-center justify-end gap-2">
+                <span className="text-purple-400 text-[9px] font-black uppercase tracking-widest">Adaptive</span>
+                <span className={`text-sm font-black font-mono ${state.adaptive.trend < 0 ? 'text-green-400' : state.adaptive.trend > 0 ? 'text-red-400' : 'text-white'}`}>
+                  ×{state.adaptive.difficulty.toFixed(1)} {TREND_ICONS[state.adaptive.trend]}
+                </span>
+              </div>
+              <div className="text-zinc-500 text-[8px] font-black uppercase tracking-widest">
+                Perf {Math.round(state.adaptive.performance * 100)}% • Target {TARGET_LOW * 100}–{TARGET_HIGH * 100}%
+              </div>
+            </div>
+          )}
           <div className="text-zinc-500 text-[10px] font-black tracking-[0.3em] uppercase">Phase Status</div>
-          <div className="text-3xl font-black text-white/40 italic flex items-baseline gap-2">
-            <span className="text-white">LVL</span>
-            <span className="text-4xl">{Math.floor(state.difficulty)}</span>
-          </div>
+          {state.wave ? (
+            <div className="text-3xl font-black text-white/40 italic flex items-baseline gap-2">
+              <span className="text-white">WAVE</span>
+              <span className="text-4xl">{state.wave.current}/{state.wave.total}</span>
+            </div>
+          ) : (
+            <div className="text-3xl font-black text-white/40 italic flex items-baseline gap-2">
+              <span className="text-white">LVL</span>
+              <span className="text-4xl">{Math.floor(state.difficulty)}</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,130 @@
+import { TrackingConfig } from '../types';
+import { DEFAULT_TRACKING } from './GameConfig';
+import { FrameStats } from './Calibration';
+import { Frame, HandBlob, Segmenter, createSegmenter, createBlobScratch, findLargestBlobs, accumulateHistogram } from './HandSegmentation';
+
+// Resolution frames are analysed at, wherever the analysis runs
+export const ANALYSIS_WIDTH = 80;
+export const ANALYSIS_HEIGHT = 60;
+// A blob this many times the pixel gate counts as full confidence
+const CONFIDENCE_SPAN = 4;
+
+// Raw blob descriptors for gesture recognition, unsmoothed
+export interface HandShape {
+  area: number;   // Blob pixels as a share of the region
+  x: number;      // Centroid before reach mapping, 0..1 within the region
+  y: number;      // Centroid down the frame, 0 (top) to 1
+  fill: number;   // Share of the bounding box covered
+  aspect: number; // Bounding box height over width, in pixels
+}
+
+export interface HandReading {
+  x: number;          // Smoothed and reach-mapped, 0..1 within the region
+  detected: boolean;
+  confidence: number; // 0..1
+  shape: HandShape;   // Zero area when no hand is detected
+}
+
+export interface AnalysisResult {
+  hands: HandReading[];
+  stats: FrameStats | null; // Only when requested, for calibration
+}
+
+// Message the tracker posts to the vision worker. The frame is transferred and closed by the worker.
+export interface VisionWorkerRequest {
+  frame: ImageBitmap | VideoFrame;
+  config: TrackingConfig;
+  regions: number;
+  withStats: boolean;
+}
+
+interface Kalman {
+  x: number;
+  p: number;
+  q: number;
+  r: number;
+}
+
+const createKalman = (): Kalman => ({
+  x: 0.5,
+  p: 1.0,
+  q: 0.08,  // Faster process noise: allows quick hand snaps
+  r: 0.04   // Low measurement noise: trusts the camera more for instant response
+});
+
+// Segmentation, blob filtering, reach mapping and per-region Kalman smoothing for one mirrored frame.
+// Stateful (background model, filters), so each tracker owns one, on the main thread or in the worker.
+export const createHandAnalyzer = (width = ANALYSIS_WIDTH, height = ANALYSIS_HEIGHT) => {
+  const pixels = width * height;
+  const mask = new Uint8Array(pixels);
+  const scratch = createBlobScratch(pixels);
+  const blobs: HandBlob[] = [];
+  const stats: FrameStats = { histogram: new Uint32Array(256), pixels, count: 0, rawX: null };
+  const result: AnalysisResult = { hands: [], stats: null };
+  let kalman: Kalman[] = [];
+  let segmenter: Segmenter | null = null;
+  let segmentation = DEFAULT_TRACKING.segmentation;
+
+  const analyze = (frame: Frame, config: TrackingConfig, regions: number, withStats: boolean): AnalysisResult => {
+    const { minPixels, sensitivity } = config;
+    // Reach is measured for one player across the whole lens; split-lens play keeps the stock edge deadzone
+    const { reachLeft, reachRight } = regions === 1 ? config : DEFAULT_TRACKING;
+    if (kalman.length !== regions) {
+      kalman = Array.from({ length: regions }, createKalman);
+      result.hands = Array.from({ length: regions }, () => ({
+        x: 0.5, detected: false, confidence: 0, shape: { area: 0, x: 0.5, y: 0.5, fill: 0, aspect: 1 }
+      }));
+    }
+
+    // Switching strategy drops the old background; the motion modes start over with a fresh one
+    if (!segmenter || config.segmentation !== segmentation) {
+      segmentation = config.segmentation;
+      segmenter = createSegmenter(segmentation, pixels);
+    }
+    segmenter(frame, mask, config);
+    findLargestBlobs(mask, width, regions, scratch, blobs);
+
+    result.stats = null;
+    if (withStats) {
+      stats.histogram.fill(0);
+      accumulateHistogram(frame, stats.histogram);
+      // Whole-lens view for calibration, which only runs with a single region
+      stats.count = blobs[0].count;
+      stats.rawX = stats.count > minPixels ? blobs[0].x : null;
+      result.stats = stats;
+    }
+
+    for (let region = 0; region < regions; region++) {
+      const k = kalman[region];
+      const hand = result.hands[region];
+      const blob = blobs[region];
+      hand.detected = blob.count > minPixels;
+      hand.confidence = hand.detected ? Math.min(1, blob.count / (minPixels * CONFIDENCE_SPAN)) : 0;
+      if (!hand.detected) {
+        hand.x = k.x;
+        hand.shape.area = 0;
+        continue;
+      }
+
+      const { shape } = hand;
+      shape.area = (blob.count * regions) / pixels;
+      shape.x = blob.x;
+      shape.y = blob.y;
+      shape.fill = blob.fill;
+      shape.aspect = (blob.height * height * regions) / (blob.width * width);
+
+      // Ergonomic mapping: the calibrated reach spans wall to wall
+      const z = Math.max(0, Math.min(1, (blob.x - reachLeft) / (reachRight - reachLeft)));
+
+      // --- Optimized Kalman Update ---
+      k.p = k.p + k.q * sensitivity;
+      const gain = k.p / (k.p + k.r);
+      k.x = k.x + gain * (z - k.x);
+      k.p = (1 - gain) * k.p;
+      hand.x = k.x;
+    }
+    return result;
+  };
+
+  return { analyze };
+};
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Frame, HandBlob, segmentBrightness, segmentSkin, segmentMotion, segmentHybrid, createBackgroundModel, findLargestBlobs, createBlobScratch, PRIME_FRAMES
+} from './HandSegmentation';
+
+const WIDTH = 40;
+const HEIGHT = 30;
+const DARK = [30, 35, 45];
+const SKIN = [255, 200, 170];
+const WHITE = [255, 255, 255];
+const BEIGE_WALL = [200, 150, 120]; // Skin-coloured, but it never moves
+
+type Rgb = number[];
+interface Patch { x: number; y: number; w: number; h: number; color: Rgb }
+
+// A fixture frame: flat background with rectangular patches painted over it
+const frameOf = (background: Rgb, ...patches: Patch[]): Frame => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let p = 0; p < WIDTH * HEIGHT; p++) {
+    const x = p % WIDTH;
+    const y = (p - x) / WIDTH;
+    const patch = patches.find(r => x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h);
+    data.set([...(patch?.color ?? background), 255], p * 4);
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const hand = (x: number, color = SKIN): Patch => ({ x, y: 10, w: 6, h: 10, color });
+
+const count = (mask: Uint8Array) => mask.reduce((sum, v) => sum + v, 0);
+// Mask pixels set inside a patch's rectangle
+const countIn = (mask: Uint8Array, r: Patch) => {
+  let n = 0;
+  for (let y = r.y; y < r.y + r.h; y++) for (let x = r.x; x < r.x + r.w; x++) n += mask[y * WIDTH + x];
+  return n;
+};
+
+describe('segmentBrightness', () => {
+  it('marks pixels brighter than the threshold', () => {
+    const mask = new Uint8Array(WIDTH * HEIGHT);
+    segmentBrightness(frameOf(DARK, hand(5, WHITE)), 180, mask);
+    expect(count(mask)).toBe(60);
+    expect(countIn(mask, hand(5))).toBe(60);
+  });
+});
+
+describe('segmentSkin', () => {
+  it('marks skin tones and ignores white and near-black', () => {
+    const mask = new Uint8Array(WIDTH * HEIGHT);
+    segmentSkin(frameOf(DARK, hand(5), hand(25, WHITE)), mask);
+    expect(count(mask)).toBe(60);
+    expect(countIn(mask, hand(5))).toBe(60);
+  });
+});
+
+describe('segmentMotion', () => {
+  const mask = new Uint8Array(WIDTH * HEIGHT);
+
+  // Feeds the frames in order and returns the mask of the last one
+  const run = (background: ReturnType<typeof createBackgroundModel>, frames: Frame[]) => {
+    for (const frame of frames) segmentMotion(frame, background, mask);
+    return mask;
+  };
+  const primedOn = (frame: Frame) => {
+    const background = createBackgroundModel(WIDTH * HEIGHT);
+    run(background, Array(PRIME_FRAMES).fill(frame));
+    return background;
+  };
+
+  it('reports nothing while the background primes', () => {
+    const background = createBackgroundModel(WIDTH * HEIGHT);
+    for (let f = 0; f < PRIME_FRAMES; f++) {
+      segmentMotion(frameOf(DARK, hand(f)), background, mask);
+      expect(count(mask)).toBe(0);
+    }
+  });
+
+  it('finds a hand entering an empty scene', () => {
+    const background = primedOn(frameOf(DARK));
+    run(background, [frameOf(DARK, hand(10))]);
+    expect(count(mask)).toBe(60);
+    expect(countIn(mask, hand(10))).toBe(60);
+  });
+
+  it('does not learn a hand that moves through view while priming', () => {
+    const background = createBackgroundModel(WIDTH * HEIGHT);
+    // Starts at the left and sweeps right, so no pixel is covered for half the priming frames
+    run(background, Array.from({ length: PRIME_FRAMES }, (_, f) => frameOf(DARK, hand(f))));
+    run(background, [frameOf(DARK, hand(0))]);
+    expect(countIn(mask, hand(0))).toBe(60);
+    expect(count(mask)).toBe(60);
+  });
+
+  it('clears the ghost a primed-in hand leaves once it moves away', () => {
+    // A hand held still from the start is indistinguishable from the scene...
+    const background = primedOn(frameOf(DARK, hand(5)));
+    expect(count(run(background, [frameOf(DARK, hand(5))]))).toBe(0);
+    // ...but the spot it uncovers must not keep reading as a hand
+    run(background, [frameOf(DARK, hand(25)), frameOf(DARK, hand(25))]);
+    expect(countIn(mask, hand(5))).toBe(0);
+    expect(countIn(mask, hand(25))).toBe(60);
+  });
+
+  it('leaves no ghost where a hand held still for a while used to be', () => {
+    const background = primedOn(frameOf(DARK));
+    run(background, Array(90).fill(frameOf(DARK, hand(5))));
+    run(background, [frameOf(DARK, hand(25)), frameOf(DARK, hand(25))]);
+    expect(countIn(mask, hand(5))).toBe(0);
+    expect(countIn(mask, hand(25))).toBe(60);
+  });
+
+  it('fades a hand held still over several seconds', () => {
+    const background = primedOn(frameOf(DARK));
+    expect(count(run(background, Array(120).fill(frameOf(DARK, hand(10)))))).toBe(60);
+    expect(count(run(background, Array(480).fill(frameOf(DARK, hand(10)))))).toBe(0);
+  });
+});
+
+describe('segmentHybrid', () => {
+  it('ignores a static skin-coloured wall and keeps a moving hand over it', () => {
+    const mask = new Uint8Array(WIDTH * HEIGHT);
+    const background = createBackgroundModel(WIDTH * HEIGHT);
+    for (let f = 0; f < PRIME_FRAMES; f++) segmentHybrid(frameOf(BEIGE_WALL), background, mask);
+    segmentHybrid(frameOf(BEIGE_WALL, hand(10), hand(25, WHITE)), background, mask);
+    expect(countIn(mask, hand(10))).toBe(60);
+    expect(count(mask)).toBe(60);
+  });
+});
+
+describe('findLargestBlobs', () => {
+  const maskOf = (...patches: Patch[]) => {
+    const mask = new Uint8Array(WIDTH * HEIGHT);
+    for (const r of patches) {
+      for (let y = r.y; y < r.y + r.h; y++) for (let x = r.x; x < r.x + r.w; x++) mask[y * WIDTH + x] = 1;
+    }
+    return mask;
+  };
+  const scratch = createBlobScratch(WIDTH * HEIGHT);
+
+  it('keeps the largest blob and measures its centroid, box and fill', () => {
+    const mask = maskOf({ x: 2, y: 2, w: 2, h: 2, color: SKIN }, { x: 10, y: 10, w: 10, h: 6, color: SKIN });
+    const [blob] = findLargestBlobs(mask, WIDTH, 1, scratch, []);
+    expect(blob).toEqual<HandBlob>({ count: 60, x: 14.5 / WIDTH, y: 12.5 / HEIGHT, width: 10 / WIDTH, height: 6 / HEIGHT, fill: 1 });
+  });
+
+  it('measures a sparse shape as a partly filled box', () => {
+    // An L: one 10px column and one 10px row sharing a corner
+    const mask = maskOf({ x: 5, y: 5, w: 1, h: 10, color: SKIN }, { x: 5, y: 14, w: 10, h: 1, color: SKIN });
+    const [blob] = findLargestBlobs(mask, WIDTH, 1, scratch, []);
+    expect(blob.count).toBe(19);
+    expect(blob.fill).toBeCloseTo(19 / 100);
+  });
+
+  it('finds one blob per region and never joins them across the split', () => {
+    // One bar straddling the middle, plus a smaller patch on the right
+    const mask = maskOf({ x: 14, y: 5, w: 12, h: 2, color: SKIN }, { x: 30, y: 20, w: 2, h: 3, color: SKIN });
+    const blobs = findLargestBlobs(mask, WIDTH, 2, scratch, []);
+    expect(blobs.map(b => b.count)).toEqual([12, 12]);
+    expect(blobs[0].x).toBeCloseTo(16.5 / 20);
+    expect(blobs[1].x).toBeCloseTo(2.5 / 20);
+  });
+
+  it('reports empty regions with a zero count', () => {
+    const blobs = findLargestBlobs(maskOf({ x: 2, y: 2, w: 3, h: 3, color: SKIN }), WIDTH, 2, scratch, []);
+    expect(blobs.map(b => b.count)).toEqual([9, 0]);
+  });
+});
@@ -0,0 +1,212 @@
+import { SegmentationMode, TrackingConfig } from '../types';
+
+// Anything shaped like ImageData, so fixture frames can be plain objects
+export type Frame = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+// Marks hand pixels in `mask` (1 = hand, one byte per pixel)
+export type Segmenter = (frame: Frame, mask: Uint8Array, config: TrackingConfig) => void;
+
+export interface HandBlob {
+  count: number;
+  x: number;      // Centroid within its region, 0..1
+  y: number;      // Centroid down the frame, 0 (top) to 1
+  width: number;  // Bounding box as a share of the region's width
+  height: number; // Bounding box as a share of the frame's height
+  fill: number;   // Share of the bounding box the blob covers; a fist fills more than a spread palm
+}
+
+// Running luminance average of the empty scene, learned by the MOTION and HYBRID strategies
+export interface BackgroundModel {
+  luma: Float32Array;
+  primeSamples: Uint8Array; // PRIME_FRAMES lumas per pixel, gathered before the first estimate
+  primeFrames: number;
+}
+
+// YCbCr skin box (Chai & Ngan); the luma floor drops sensor noise in near-black areas
+const SKIN_CB_MIN = 77;
+const SKIN_CB_MAX = 127;
+const SKIN_CR_MIN = 133;
+const SKIN_CR_MAX = 173;
+const SKIN_MIN_LUMA = 40;
+// How far a pixel must drift from the background to count as foreground
+const MOTION_THRESHOLD = 25;
+// The background adapts quickly where nothing is happening and slowly under the hand,
+// so a hand held still fades out over several seconds rather than instantly
+const BACKGROUND_RATE = 0.05;
+const FOREGROUND_RATE = 0.005;
+// The first estimate is each pixel's median over this many frames, so a hand moving through view isn't learned
+export const PRIME_FRAMES = 30;
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+export const isSkin = (r: number, g: number, b: number) => {
+  if (luma(r, g, b) < SKIN_MIN_LUMA) return false;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= SKIN_CB_MIN && cb <= SKIN_CB_MAX && cr >= SKIN_CR_MIN && cr <= SKIN_CR_MAX;
+};
+
+export const segmentBrightness = (frame: Frame, threshold: number, mask: Uint8Array) => {
+  const { data } = frame;
+  for (let i = 0, p = 0; p < mask.length; i += 4, p++) {
+    mask[p] = luma(data[i], data[i + 1], data[i + 2]) > threshold ? 1 : 0;
+  }
+};
+
+export const segmentSkin = (frame: Frame, mask: Uint8Array) => {
+  const { data } = frame;
+  for (let i = 0, p = 0; p < mask.length; i += 4, p++) {
+    mask[p] = isSkin(data[i], data[i + 1], data[i + 2]) ? 1 : 0;
+  }
+};
+
+// True when `y` looks like the settled background just above or to the left of pixel p
+const matchesNeighbour = (y: number, bg: Float32Array, mask: Uint8Array, p: number, width: number) =>
+  (p % width > 0 && !mask[p - 1] && Math.abs(y - bg[p - 1]) <= MOTION_THRESHOLD)
+  || (p >= width && !mask[p - width] && Math.abs(y - bg[p - width]) <= MOTION_THRESHOLD);
+
+export const createBackgroundModel = (pixels: number): BackgroundModel => ({
+  luma: new Float32Array(pixels), primeSamples: new Uint8Array(pixels * PRIME_FRAMES), primeFrames: 0
+});
+
+const primeBackground = (frame: Frame, background: BackgroundModel, mask: Uint8Array) => {
+  const { data } = frame;
+  const { luma: bg, primeSamples } = background;
+  const offset = background.primeFrames++;
+  for (let i = 0, p = 0; p < mask.length; i += 4, p++) primeSamples[p * PRIME_FRAMES + offset] = luma(data[i], data[i + 1], data[i + 2]);
+  mask.fill(0);
+  if (background.primeFrames < PRIME_FRAMES) return;
+  for (let p = 0; p < mask.length; p++) {
+    const samples = primeSamples.subarray(p * PRIME_FRAMES, (p + 1) * PRIME_FRAMES).sort();
+    bg[p] = samples[PRIME_FRAMES >> 1];
+  }
+};
+
+// Foreground against the background model, which learns from this frame afterwards.
+// Nothing is reported until the model has primed.
+export const segmentMotion = (frame: Frame, background: BackgroundModel, mask: Uint8Array) => {
+  if (background.primeFrames < PRIME_FRAMES) {
+    primeBackground(frame, background, mask);
+    return;
+  }
+  const { data, width } = frame;
+  const bg = background.luma;
+  for (let i = 0, p = 0; p < mask.length; i += 4, p++) {
+    const y = luma(data[i], data[i + 1], data[i + 2]);
+    // A foreground pixel that matches the settled background beside it is background the hand just uncovered
+    let foreground = Math.abs(y - bg[p]) > MOTION_THRESHOLD;
+    if (foreground && matchesNeighbour(y, bg, mask, p, width)) {
+      bg[p] = y;
+      foreground = false;
+    }
+    mask[p] = foreground ? 1 : 0;
+    bg[p] += (y - bg[p]) * (foreground ? FOREGROUND_RATE : BACKGROUND_RATE);
+  }
+};
+
+// Skin tones that also differ from the background: a wood desk or beige wall is skin-coloured but static
+export const segmentHybrid = (frame: Frame, background: BackgroundModel, mask: Uint8Array) => {
+  segmentMotion(frame, background, mask);
+  const { data } = frame;
+  for (let i = 0, p = 0; p < mask.length; i += 4, p++) {
+    if (mask[p] && !isSkin(data[i], data[i + 1], data[i + 2])) mask[p] = 0;
+  }
+};
+
+// Binds a strategy to its state: MOTION and HYBRID keep a background per segmenter, which is only
+// allocated for them (its priming history alone is PRIME_FRAMES frames of luma)
+export const createSegmenter = (mode: SegmentationMode, pixels: number): Segmenter => {
+  switch (mode) {
+    case SegmentationMode.BRIGHTNESS: return (frame, mask, config) => segmentBrightness(frame, config.threshold, mask);
+    case SegmentationMode.SKIN: return (frame, mask) => segmentSkin(frame, mask);
+    case SegmentationMode.MOTION: {
+      const background = createBackgroundModel(pixels);
+      return (frame, mask) => segmentMotion(frame, background, mask);
+    }
+    case SegmentationMode.HYBRID: {
+      const background = createBackgroundModel(pixels);
+      return (frame, mask) => segmentHybrid(frame, background, mask);
+    }
+  }
+};
+
+// Scratch buffers for findLargestBlobs, sized once per frame resolution
+export interface BlobScratch {
+  labels: Int32Array;
+  stack: Int32Array;
+}
+
+export const createBlobScratch = (pixels: number): BlobScratch => ({ labels: new Int32Array(pixels), stack: new Int32Array(pixels) });
+
+// 4-connected components of `mask`, split into `regions` vertical strips that blobs never cross.
+// Only the largest blob per strip is kept, so stray specks elsewhere can't drag the centroid.
+export const findLargestBlobs = (
+  mask: Uint8Array, width: number, regions: number, scratch: BlobScratch, out: HandBlob[]
+) => {
+  const { labels, stack } = scratch;
+  const regionWidth = width / regions;
+  const height = mask.length / width;
+  const regionOf = (x: number) => Math.min(regions - 1, Math.floor(x / regionWidth));
+  labels.fill(0);
+  out.length = regions;
+  for (let r = 0; r < regions; r++) {
+    out[r] = out[r] ?? { count: 0, x: 0, y: 0, width: 0, height: 0, fill: 0 };
+    out[r].count = 0;
+    out[r].x = 0;
+    out[r].y = 0;
+    out[r].width = 0;
+    out[r].height = 0;
+    out[r].fill = 0;
+  }
+
+  let label = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    label++;
+    const region = regionOf(start % width);
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let minX = width;
+    let maxX = 0;
+    let minY = height;
+    let maxY = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+      count++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      // Left/right neighbours stop at the strip edge
+      if (x > 0 && regionOf(x - 1) === region && mask[p - 1] && !labels[p - 1]) { labels[p - 1] = label; stack[top++] = p - 1; }
+      if (x < width - 1 && regionOf(x + 1) === region && mask[p + 1] && !labels[p + 1]) { labels[p + 1] = label; stack[top++] = p + 1; }
+      if (p >= width && mask[p - width] && !labels[p - width]) { labels[p - width] = label; stack[top++] = p - width; }
+      if (p + width < mask.length && mask[p + width] && !labels[p + width]) { labels[p + width] = label; stack[top++] = p + width; }
+    }
+    if (count > out[region].count) {
+      const blob = out[region];
+      const boxWidth = maxX - minX + 1;
+      const boxHeight = maxY - minY + 1;
+      blob.count = count;
+      blob.x = (sumX / count - region * regionWidth) / regionWidth;
+      blob.y = sumY / count / height;
+      blob.width = boxWidth / regionWidth;
+      blob.height = boxHeight / height;
+      blob.fill = count / (boxWidth * boxHeight);
+    }
+  }
+  return out;
+};
+
+export const accumulateHistogram = (frame: Frame, histogram: Uint32Array) => {
+  const { data } = frame;
+  for (let i = 0; i < data.length; i += 4) histogram[luma(data[i], data[i + 1], data[i + 2]) | 0]++;
+};
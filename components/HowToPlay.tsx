@@ -1,13 +1,45 @@
 
-import React from 'react';
-import { InputMode } from '../types';
+import React, { useCallback } from 'react';
+import { InputMode, PlayMode, GestureType, TrackingConfig, FrameSourceSpec } from '../types';
+import VisionTracker from './VisionTracker';
+import { GESTURES } from './GameConfig';
 
 interface HowToPlayProps {
   onStart: () => void;
   inputMode: InputMode;
+  playMode?: PlayMode;
+  trackingConfig: TrackingConfig;
+  frameSource: FrameSourceSpec; // VISION only: the brief previews the lens and takes a swipe as GO LIVE
 }
 
-const HowToPlay: React.FC<HowToPlayProps> = ({ onStart, inputMode }) => {
+// Player 1's control in two-player sessions outside VISION; player 2 always takes the arrow keys
+const PLAYER_ONE_CONTROLS: Record<InputMode, string> = {
+  [InputMode.CURSOR]: 'Mouse',
+  [InputMode.VISION]: 'Left Half',
+  [InputMode.KEYBOARD]: 'A D Keys',
+  [InputMode.TOUCH]: 'Touchscreen',
+  [InputMode.GAMEPAD]: 'Gamepad'
+};
+
+// Either swipe direction confirms, so the guide lists one of them
+const GESTURE_GUIDE = [GestureType.FIST, GestureType.RAISE, GestureType.SWIPE_RIGHT];
+
+// The brief only wants gestures, not positions
+const ignoreHandUpdate = () => {};
+
+// Solo briefs for the modes that don't use the camera
+const MANUAL_BRIEFS: Partial<Record<InputMode, React.ReactNode>> = {
+  [InputMode.CURSOR]: <>Move your <span className="text-white font-black">Cursor</span> across the screen. The extractor follows your movement with <span className="text-white font-black">1:1 Precision</span>.</>,
+  [InputMode.KEYBOARD]: <>Hold <span className="text-white font-black">← →</span> or <span className="text-white font-black">A D</span>. The extractor <span className="text-white font-black">Accelerates</span> while held and coasts to a stop on release.</>,
+  [InputMode.TOUCH]: <><span className="text-white font-black">Drag a Finger</span> across the field. The extractor follows your touch with <span className="text-white font-black">1:1 Precision</span>.</>,
+  [InputMode.GAMEPAD]: <>Tilt the <span className="text-white font-black">Left Stick</span> or press the <span className="text-white font-black">D-Pad</span>. Stick angle sets the speed.</>
+};
+
+const HowToPlay: React.FC<HowToPlayProps> = ({ onStart, inputMode, playMode = PlayMode.SOLO, trackingConfig, frameSource }) => {
+  const handleGesture = useCallback((gesture: GestureType) => {
+    if (gesture === GestureType.SWIPE_LEFT || gesture === GestureType.SWIPE_RIGHT) onStart();
+  }, [onStart]);
+
   return (
     <div className="max-w-xl w-full bg-zinc-900/80 p-12 rounded-[3rem] border border-white/10 backdrop-blur-3xl shadow-2xl space-y-10 animate-in fade-in zoom-in duration-500">
       <div className="space-y-2 text-center">
@@ -16,7 +48,27 @@ const HowToPlay: React.FC<HowToPlayProps> = ({ onStart, inputMode }) => {
       </div>
       
       <div className="space-y-8">
-        {inputMode === InputMode.VISION ? (
+        {playMode !== PlayMode.SOLO ? (
+          <div className="flex items-start gap-6">
+            <div className="w-12 h-12 bg-red-500/20 text-red-400 rounded-2xl flex items-center justify-center font-black flex-shrink-0 border border-red-500/20 text-xl italic">01</div>
+            <div className="space-y-1">
+              {inputMode === InputMode.VISION ? (
+                <p className="text-zinc-300 font-medium text-lg leading-snug">
+                  Stand side by side: the <span className="text-white font-black">Left Half</span> of the lens steers Player 1, the <span className="text-white font-black">Right Half</span> steers Player 2.
+                </p>
+              ) : (
+                <p className="text-zinc-300 font-medium text-lg leading-snug">
+                  Player 1 steers with the <span className="text-white font-black">{PLAYER_ONE_CONTROLS[inputMode]}</span>, Player 2 with the <span className="text-white font-black">← → Keys</span>.
+                </p>
+              )}
+              <p className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">
+                {playMode === PlayMode.VERSUS
+                  ? 'Same drops on both fields. Last pilot standing wins.'
+                  : 'One field, shared lives. Ringed drops only land on the paddle of matching colour.'}
+              </p>
+            </div>
+          </div>
+        ) : inputMode === InputMode.VISION ? (
           <div className="flex items-start gap-6">
             <div className="w-12 h-12 bg-green-500/20 text-green-400 rounded-2xl flex items-center justify-center font-black flex-shrink-0 border border-green-500/20 text-xl italic">01</div>
             <div className="space-y-1">
@@ -29,21 +81,55 @@ const HowToPlay: React.FC<HowToPlayProps> = ({ onStart, inputMode }) => {
         ) : (
           <div className="flex items-start gap-6">
             <div className="w-12 h-12 bg-blue-500/20 text-blue-400 rounded-2xl flex items-center justify-center font-black flex-shrink-0 border border-blue-500/20 text-xl italic">01</div>
-            <p className="text-zinc-300 font-medium text-lg leading-snug">Move your <span className="text-white font-black">Cursor</span> across the screen. The extractor follows your movement with <span className="text-white font-black">1:1 Precision</span>.</p>
+            <div className="space-y-1">
+              <p className="text-zinc-300 font-medium text-lg leading-snug">{MANUAL_BRIEFS[inputMode]}</p>
+              {inputMode === InputMode.GAMEPAD && (
+                <p className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Pad not detected? Press any button to wake it.</p>
+              )}
+            </div>
           </div>
         )}
 
         <div className="flex items-start gap-6">
           <div className="w-12 h-12 bg-purple-500/20 text-purple-400 rounded-2xl flex items-center justify-center font-black flex-shrink-0 border border-purple-500/20 text-xl italic">02</div>
-          <p className="text-zinc-300 font-medium text-lg leading-snug">Intercept <span className="text-green-400 font-black italic uppercase underline decoration-2 offset-4">Positive Matter</span>. Avoid hazardous anomalies.</p>
+          <div className="space-y-1">
+            <p className="text-zinc-300 font-medium text-lg leading-snug">Intercept <span className="text-green-400 font-black italic uppercase underline decoration-2 offset-4">Positive Matter</span>. Avoid hazardous anomalies.</p>
+            <p className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">
+              Every catch charges the boost • Fire it with {inputMode === InputMode.VISION ? 'a raised hand' : playMode === PlayMode.SOLO ? 'Space' : 'Space (P1) or Enter (P2)'} to slow time
+            </p>
+          </div>
         </div>
+
+        {inputMode === InputMode.VISION && (
+          <div className="flex items-start gap-6">
+            <div className="w-12 h-12 bg-amber-500/20 text-amber-400 rounded-2xl flex items-center justify-center font-black flex-shrink-0 border border-amber-500/20 text-xl italic">03</div>
+            <div className="flex-1 space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                {GESTURE_GUIDE.map(gesture => (
+                  <div key={gesture} className="bg-black/40 px-3 py-2 rounded-2xl border border-white/5 text-center">
+                    <div className="text-2xl">{GESTURES[gesture].icon}</div>
+                    <p className="text-white text-[10px] font-black uppercase tracking-widest">{GESTURES[gesture].label}</p>
+                    <p className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">{GESTURES[gesture].action}</p>
+                  </div>
+                ))}
+              </div>
+              <VisionTracker
+                onHandUpdate={ignoreHandUpdate}
+                onGesture={handleGesture}
+                config={trackingConfig}
+                source={frameSource}
+                regions={playMode === PlayMode.SOLO ? 1 : 2}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       <button 
         onClick={onStart}
         className="w-full py-6 bg-white text-zinc-950 font-black text-2xl rounded-[2rem] hover:bg-green-400 transition-all active:scale-95 shadow-2xl shadow-white/5"
       >
-        GO LIVE
+        GO LIVE{inputMode === InputMode.VISION && <span className="block text-[10px] tracking-widest text-zinc-500">or swipe</span>}
       </button>
     </div>
   );
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FIXED_STEP_MS } from './GameSimulation';
+import { GamepadProvider, KeyboardProvider, SOLO_KEYS } from './InputProviders';
+
+// A standard-mapping pad with the left stick at `axis` and the given buttons held
+const padOf = (axis: number, pressed: number[] = [], connected = true) => ({
+  connected,
+  axes: [axis, 0],
+  buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i), value: pressed.includes(i) ? 1 : 0 }))
+}) as unknown as Gamepad;
+
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+// Per-tick paddle movement over `ticks` fixed steps
+const movement = (poll: (stepMs: number) => { handX: number }, ticks: number) => {
+  const deltas: number[] = [];
+  let last = poll(0).handX;
+  for (let t = 0; t < ticks; t++) {
+    const { handX } = poll(FIXED_STEP_MS);
+    deltas.push(handX - last);
+    last = handX;
+  }
+  return deltas;
+};
+
+describe('GamepadProvider', () => {
+  it('ignores stick drift inside the deadzone', () => {
+    const provider = new GamepadProvider(0, () => [padOf(0.1)]);
+    movement(provider.poll, 60);
+    expect(provider.poll(FIXED_STEP_MS).handX).toBe(0.5);
+  });
+
+  it('moves with the stick once it leaves the deadzone', () => {
+    const provider = new GamepadProvider(0, () => [padOf(-0.5)]);
+    movement(provider.poll, 30);
+    expect(provider.poll(FIXED_STEP_MS).handX).toBeLessThan(0.5);
+  });
+
+  it('moves with the d-pad', () => {
+    const right = new GamepadProvider(0, () => [padOf(0, [DPAD_RIGHT])]);
+    const left = new GamepadProvider(0, () => [padOf(0, [DPAD_LEFT])]);
+    movement(right.poll, 30);
+    movement(left.poll, 30);
+    expect(right.poll(FIXED_STEP_MS).handX).toBeGreaterThan(0.5);
+    expect(left.poll(FIXED_STEP_MS).handX).toBeLessThan(0.5);
+  });
+
+  it('builds up speed over several ticks before topping out', () => {
+    const provider = new GamepadProvider(0, () => [padOf(1)]);
+    const deltas = movement(provider.poll, 20);
+    expect(deltas[0]).toBeGreaterThan(0);
+    expect(deltas[5]).toBeGreaterThan(deltas[0] * 2);
+    expect(deltas[10]).toBeGreaterThan(deltas[5]);
+    // Full speed: the last few ticks move the same distance
+    expect(deltas[19]).toBeCloseTo(deltas[15], 10);
+  });
+
+  it('reports the hand lost while its pad is disconnected', () => {
+    let pads: (Gamepad | null)[] = [padOf(0)];
+    const provider = new GamepadProvider(0, () => pads);
+    expect(provider.poll(FIXED_STEP_MS).isHandDetected).toBe(true);
+    pads = [padOf(0, [], false)];
+    expect(provider.poll(FIXED_STEP_MS).isHandDetected).toBe(false);
+    pads = [null];
+    expect(provider.poll(FIXED_STEP_MS).isHandDetected).toBe(false);
+    pads = [padOf(0)];
+    expect(provider.poll(FIXED_STEP_MS).isHandDetected).toBe(true);
+  });
+
+  it('reads the second connected pad for player 2, skipping empty slots', () => {
+    const provider = new GamepadProvider(1, () => [padOf(0), null, padOf(1)]);
+    movement(provider.poll, 30);
+    const input = provider.poll(FIXED_STEP_MS);
+    expect(input.isHandDetected).toBe(true);
+    expect(input.handX).toBeGreaterThan(0.5);
+  });
+});
+
+describe('KeyboardProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accelerates while a key is held and coasts to a stop once released', () => {
+    const target = new EventTarget();
+    vi.stubGlobal('window', target);
+    const press = (type: string, key: string) => target.dispatchEvent(Object.assign(new Event(type), { key }));
+
+    const provider = new KeyboardProvider(SOLO_KEYS);
+    provider.attach();
+    press('keydown', 'ArrowRight');
+    const held = movement(provider.poll, 10);
+    expect(held[0]).toBeGreaterThan(0);
+    expect(held[9]).toBeGreaterThan(held[0] * 2);
+
+    press('keyup', 'ArrowRight');
+    const released = movement(provider.poll, 30);
+    expect(released[0]).toBeGreaterThan(0);
+    expect(released[0]).toBeLessThan(held[9]);
+    expect(released[29]).toBe(0);
+    provider.detach();
+  });
+});
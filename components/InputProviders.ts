@@ -0,0 +1,209 @@
+import { InputMode } from '../types';
+import { PaddleInput } from './GameSimulation';
+
+// Maps a pointer's clientX onto the playfield as 0..1, or null while the field isn't laid out
+export type ClientToHandX = (clientX: number) => number | null;
+
+// One paddle's control source. Polled once per fixed simulation tick; the returned
+// object is reused between polls, so copy what you need before the next one.
+export interface InputProvider {
+  attach: (toHandX: ClientToHandX) => void;
+  detach: () => void;
+  poll: (stepMs: number) => PaddleInput;
+}
+
+export interface KeyBinding {
+  left: string[];
+  right: string[];
+}
+
+export const SOLO_KEYS: KeyBinding = { left: ['ArrowLeft', 'a', 'A'], right: ['ArrowRight', 'd', 'D'] };
+// Two players on one keyboard: player 1 takes the letters, player 2 the arrows
+export const P1_KEYS: KeyBinding = { left: ['a', 'A'], right: ['d', 'D'] };
+export const P2_KEYS: KeyBinding = { left: ['ArrowLeft'], right: ['ArrowRight'] };
+
+// The boost is fired from the keyboard in every mode but VISION, where raising a hand does it
+export const BOOST_KEYS = [' ', 'Enter']; // Indexed by player
+const BOOST_KEY_LABELS = ['⎵ Space', '↵ Enter'];
+
+export const getBoostHint = (mode: InputMode, player: number) =>
+  mode === InputMode.VISION ? '🙌 Raise hand' : BOOST_KEY_LABELS[player];
+
+// Analog feel for digital and stick input, in playfield widths per second
+const MAX_SPEED = 1.6;
+const ACCELERATION = 5;   // per second, while held
+const FRICTION = 8;       // per second, once released
+const REVERSE_BOOST = 2;  // Turning around brakes harder than speeding up
+const STICK_DEADZONE = 0.15;
+// Standard gamepad mapping
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+// Eases `velocity` toward `target` and moves the paddle by the result
+const integrate = (state: { handX: number; velocity: number }, target: number, stepMs: number) => {
+  const dt = stepMs / 1000;
+  const rate = target === 0 ? FRICTION
+    : Math.sign(target) !== Math.sign(state.velocity) && state.velocity !== 0 ? ACCELERATION * REVERSE_BOOST
+    : ACCELERATION;
+  const delta = target - state.velocity;
+  state.velocity += Math.sign(delta) * Math.min(Math.abs(delta), rate * MAX_SPEED * dt);
+  state.handX = clamp01(state.handX + state.velocity * dt);
+  // Stop dead at the walls instead of pushing against them
+  if (state.handX === 0 || state.handX === 1) state.velocity = 0;
+};
+
+// CURSOR: the paddle sits under the mouse pointer
+export class PointerProvider implements InputProvider {
+  private input: PaddleInput = { handX: 0.5, isHandDetected: true };
+  private toHandX: ClientToHandX | null = null;
+
+  private handleMove = (e: MouseEvent) => {
+    this.input.handX = this.toHandX?.(e.clientX) ?? this.input.handX;
+  };
+
+  public attach = (toHandX: ClientToHandX) => {
+    this.toHandX = toHandX;
+    window.addEventListener('mousemove', this.handleMove);
+  };
+
+  public detach = () => {
+    this.toHandX = null;
+    window.removeEventListener('mousemove', this.handleMove);
+  };
+
+  public poll = () => this.input;
+}
+
+// TOUCH: the paddle follows the first finger down. The field opts out of browser
+// panning with `touch-action: none`, so taps on buttons still click normally.
+export class TouchProvider implements InputProvider {
+  private input: PaddleInput = { handX: 0.5, isHandDetected: true };
+  private toHandX: ClientToHandX | null = null;
+
+  private handleTouch = (e: TouchEvent) => {
+    const touch = e.touches[0];
+    if (touch) this.input.handX = this.toHandX?.(touch.clientX) ?? this.input.handX;
+  };
+
+  public attach = (toHandX: ClientToHandX) => {
+    this.toHandX = toHandX;
+    window.addEventListener('touchstart', this.handleTouch);
+    window.addEventListener('touchmove', this.handleTouch);
+  };
+
+  public detach = () => {
+    this.toHandX = null;
+    window.removeEventListener('touchstart', this.handleTouch);
+    window.removeEventListener('touchmove', this.handleTouch);
+  };
+
+  public poll = () => this.input;
+}
+
+// KEYBOARD: held keys accelerate the paddle, releasing lets it coast to a stop
+export class KeyboardProvider implements InputProvider {
+  private input: PaddleInput = { handX: 0.5, isHandDetected: true };
+  private motion = { handX: 0.5, velocity: 0 };
+  private held = { left: false, right: false };
+
+  constructor(private keys: KeyBinding = SOLO_KEYS) {}
+
+  private handleKey = (e: KeyboardEvent) => {
+    const side = this.keys.left.includes(e.key) ? 'left' : this.keys.right.includes(e.key) ? 'right' : null;
+    if (!side) return;
+    this.held[side] = e.type === 'keydown';
+    e.preventDefault();
+  };
+
+  public attach = () => {
+    window.addEventListener('keydown', this.handleKey);
+    window.addEventListener('keyup', this.handleKey);
+  };
+
+  // Keys released while detached would otherwise stay stuck down
+  public detach = () => {
+    window.removeEventListener('keydown', this.handleKey);
+    window.removeEventListener('keyup', this.handleKey);
+    this.held.left = this.held.right = false;
+    this.motion.velocity = 0;
+  };
+
+  public poll = (stepMs: number) => {
+    const direction = (this.held.right ? 1 : 0) - (this.held.left ? 1 : 0);
+    integrate(this.motion, direction * MAX_SPEED, stepMs);
+    this.input.handX = this.motion.handX;
+    return this.input;
+  };
+}
+
+// GAMEPAD: stick deflection sets the target speed, the d-pad acts as a full push.
+// Reads through `getGamepads` so tests can hand in a fake navigator.getGamepads.
+export class GamepadProvider implements InputProvider {
+  private input: PaddleInput = { handX: 0.5, isHandDetected: false };
+  private motion = { handX: 0.5, velocity: 0 };
+
+  constructor(
+    private padIndex: number = 0,
+    private getGamepads: () => ArrayLike<Gamepad | null> = () => navigator.getGamepads?.() ?? []
+  ) {}
+
+  public attach = () => {};
+
+  public detach = () => {
+    this.motion.velocity = 0;
+  };
+
+  public poll = (stepMs: number) => {
+    // Pads only show up once the browser has seen a button press, and slots can have gaps
+    const pads = Array.from(this.getGamepads()).filter((pad): pad is Gamepad => !!pad && pad.connected);
+    const pad = pads[this.padIndex];
+    this.input.isHandDetected = !!pad;
+
+    let target = 0;
+    if (pad) {
+      const axis = pad.axes[0] ?? 0;
+      const stick = Math.abs(axis) < STICK_DEADZONE ? 0 : (axis - Math.sign(axis) * STICK_DEADZONE) / (1 - STICK_DEADZONE);
+      const dpad = (pad.buttons[DPAD_RIGHT]?.pressed ? 1 : 0) - (pad.buttons[DPAD_LEFT]?.pressed ? 1 : 0);
+      target = Math.max(-1, Math.min(1, stick + dpad)) * MAX_SPEED;
+    }
+    integrate(this.motion, target, stepMs);
+    this.input.handX = this.motion.handX;
+    return this.input;
+  };
+}
+
+// VISION: VisionTracker pushes positions as camera frames arrive; the simulation polls the latest
+export class HandProvider implements InputProvider {
+  private input: PaddleInput = { handX: 0.5, isHandDetected: true };
+
+  public push = (handX: number, detected: boolean) => {
+    this.input.handX = handX;
+    this.input.isHandDetected = detected;
+  };
+
+  public attach = () => {};
+  public detach = () => {};
+  public poll = () => this.input;
+}
+
+const createProvider = (mode: InputMode, keys: KeyBinding): InputProvider => {
+  switch (mode) {
+    case InputMode.VISION: return new HandProvider();
+    case InputMode.KEYBOARD: return new KeyboardProvider(keys);
+    case InputMode.TOUCH: return new TouchProvider();
+    case InputMode.GAMEPAD: return new GamepadProvider();
+    case InputMode.CURSOR: return new PointerProvider();
+  }
+};
+
+// One provider per paddle. With two players, player 2 uses the arrow keys,
+// except in VISION mode where each half of the camera image drives a paddle.
+export const createPaddleInputs = (mode: InputMode, players: number): InputProvider[] => {
+  if (players === 1) return [createProvider(mode, SOLO_KEYS)];
+  return [
+    createProvider(mode, P1_KEYS),
+    mode === InputMode.VISION ? new HandProvider() : new KeyboardProvider(P2_KEYS)
+  ];
+};
@@ -1,14 +1,47 @@
 
-import React from 'react';
-import { LeaderboardEntry, PlayerAvatar, GameTheme } from '../types';
+import React, { useState } from 'react';
+import { LeaderboardEntry, PlayerAvatar, GameTheme, DailyChallenge, ReplayLog, RuleSet, AdaptiveSession } from '../types';
+import { RULE_SETS } from './GameConfig';
+import { CAMPAIGN } from './LevelScripts';
 
 interface LeaderboardProps {
   entries: LeaderboardEntry[];
   avatars: PlayerAvatar[];
+  dailyChallenge: DailyChallenge;
+  replays: ReplayLog[];
+  adaptiveSessions: AdaptiveSession[];
+  onWatchReplay: (replay: ReplayLog) => void;
+  onDeleteReplay: (id: string) => void;
   onBack: () => void;
 }
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ entries, avatars, onBack }) => {
+type Board = 'GLOBAL' | 'DAILY' | 'CAMPAIGN' | 'CUSTOM' | 'TEAM' | 'REPLAYS' | 'ADAPTIVE';
+
+const formatClock = (ms: number) => {
+  const sec = Math.floor(ms / 1000);
+  return `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+};
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ entries, avatars, dailyChallenge, replays, adaptiveSessions, onWatchReplay, onDeleteReplay, onBack }) => {
+  const [board, setBoard] = useState<Board>('GLOBAL');
+  const [ruleSet, setRuleSet] = useState<RuleSet>(RuleSet.HAZARDS_ONLY);
+  const [openSession, setOpenSession] = useState<string | null>(null);
+  // The daily challenge fixes its own rules; every other board splits by rule set
+  const splitsRules = board !== 'DAILY' && board !== 'REPLAYS' && board !== 'ADAPTIVE';
+  const visibleEntries = entries
+    .filter(e => !splitsRules || (e.ruleSet ?? RuleSet.HAZARDS_ONLY) === ruleSet)
+    .filter(e => {
+      // Custom-tuned runs and co-op teams only ever appear on their own boards
+      if (board === 'TEAM') return e.partnerName !== undefined;
+      if (e.partnerName !== undefined) return false;
+      if (board === 'CUSTOM') return e.customPreset !== undefined;
+      if (e.customPreset !== undefined) return false;
+      if (board === 'DAILY') return e.seed === dailyChallenge.seed;
+      if (board === 'CAMPAIGN') return e.levelId !== undefined;
+      return e.seed === undefined && e.levelId === undefined;
+    })
+    .sort((a, b) => b.score - a.score);
+
   const getAvatarEmoji = (id: string) => avatars.find(a => a.id === id)?.emoji || '👤';
   
   const themeIcons: Record<GameTheme, string> = {
@@ -35,13 +68,129 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ entries, avatars, onBack }) =
         </button>
       </div>
 
+      <div className="flex flex-wrap gap-2 mb-6">
+        {([
+          { id: 'GLOBAL', label: 'Free Flight' },
+          { id: 'DAILY', label: `Daily • ${dailyChallenge.dateKey}` },
+          { id: 'CAMPAIGN', label: 'Campaign' },
+          { id: 'CUSTOM', label: 'Custom Rules' },
+          { id: 'TEAM', label: 'Co-op Teams' },
+          { id: 'REPLAYS', label: `Replays (${replays.length})` },
+          { id: 'ADAPTIVE', label: `Adaptive Log (${adaptiveSessions.length})` }
+        ] as { id: Board; label: string }[]).map(b => (
+          <button
+            key={b.id}
+            onClick={() => setBoard(b.id)}
+            className={`px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${board === b.id ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500 hover:text-white'}`}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+
+      {splitsRules && (
+        <div className="flex gap-1 mb-6">
+          {Object.values(RuleSet).map(r => (
+            <button
+              key={r}
+              onClick={() => setRuleSet(r)}
+              className={`px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${ruleSet === r ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500 hover:text-white'}`}
+            >
+              {RULE_SETS[r].label}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-4 custom-scrollbar">
-        {entries.length === 0 ? (
+        {board === 'ADAPTIVE' ? (
+          adaptiveSessions.length === 0 ? (
+            <div className="py-20 text-center text-zinc-600 font-black uppercase tracking-widest opacity-50">
+              No Adaptive Sessions Logged
+            </div>
+          ) : (
+            adaptiveSessions.map(session => {
+              const last = session.adjustments[session.adjustments.length - 1];
+              const isOpen = openSession === session.id;
+              return (
+                <div key={session.id} className="p-4 rounded-2xl border bg-white/5 border-white/5">
+                  <button onClick={() => setOpenSession(isOpen ? null : session.id)} className="w-full flex items-center gap-6 text-left">
+                    <div className="flex-1">
+                      <div className="text-white font-black tracking-widest text-sm uppercase">{session.pilotName}</div>
+                      <div className="flex gap-2 mt-1">
+                        <span className="text-[9px] font-bold text-zinc-500 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5">
+                          {themeIcons[session.theme]} {session.theme.replace('_', ' ')}
+                        </span>
+                        <span className="text-[9px] font-bold text-zinc-500 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5">
+                          {new Date(session.date).toLocaleDateString()} • {formatClock(session.durationMs)}
+                        </span>
+                        <span className="text-[9px] font-bold text-purple-400 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-purple-500/20">
+                          {last ? `×1.0 → ×${last.to.toFixed(1)} • ${session.adjustments.length} moves` : 'Held steady at ×1.0'}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="text-2xl font-black italic text-white tracking-tighter">{session.score}</div>
+                    <span className="text-zinc-500 text-xs">{isOpen ? '▲' : '▼'}</span>
+                  </button>
+                  {isOpen && session.adjustments.length > 0 && (
+                    <ul className="mt-3 pt-3 border-t border-white/5 font-mono text-[10px] text-zinc-400 space-y-0.5">
+                      {session.adjustments.map(a => (
+                        <li key={a.atMs}>
+                          {formatClock(a.atMs)} ×{a.from.toFixed(1)} → ×{a.to.toFixed(1)} • perf {Math.round(a.performance * 100)}% • catch {Math.round(a.catchRate * 100)}% • hazards {a.hazards.toFixed(1)} • near misses {a.nearMisses.toFixed(1)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })
+          )
+        ) : board === 'REPLAYS' ? (
+          replays.length === 0 ? (
+            <div className="py-20 text-center text-zinc-600 font-black uppercase tracking-widest opacity-50">
+              No Flights Archived
+            </div>
+          ) : (
+            replays.map(replay => (
+              <div key={replay.id} className="flex items-center gap-6 p-4 rounded-2xl border bg-white/5 border-white/5">
+                <div className="text-3xl">
+                  {getAvatarEmoji(replay.avatarId)}{replay.partnerAvatarId !== undefined && getAvatarEmoji(replay.partnerAvatarId)}
+                </div>
+                <div className="flex-1 text-left">
+                  <div className="text-white font-black tracking-widest text-sm uppercase">
+                    {replay.pilotName}{replay.partnerName !== undefined && ` & ${replay.partnerName}`}
+                  </div>
+                  <div className="flex gap-2 mt-1">
+                    <span className="text-[9px] font-bold text-zinc-500 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5">
+                      {themeIcons[replay.theme]} {replay.theme.replace('_', ' ')}
+                    </span>
+                    <span className="text-[9px] font-bold text-zinc-500 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5">
+                      {new Date(replay.date).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+                <div className="text-2xl font-black italic text-white tracking-tighter">{replay.score}</div>
+                <button
+                  onClick={() => onWatchReplay(replay)}
+                  className="px-4 py-2 bg-white text-zinc-900 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+                >
+                  ▶ Watch
+                </button>
+                <button
+                  onClick={() => onDeleteReplay(replay.id)}
+                  className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-zinc-500 hover:text-red-400 transition-all"
+                >
+                  ✕
+                </button>
+              </div>
+            ))
+          )
+        ) : visibleEntries.length === 0 ? (
           <div className="py-20 text-center text-zinc-600 font-black uppercase tracking-widest opacity-50">
             No Records Logged in this sector
           </div>
         ) : (
-          entries.map((entry, index) => (
+          visibleEntries.map((entry, index) => (
             <div 
               key={entry.id}
               className={`flex items-center gap-6 p-4 rounded-2xl border transition-all ${
@@ -51,18 +200,40 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ entries, avatars, onBack }) =
               <div className="w-8 text-2xl font-black italic text-zinc-600 text-center">
                 {index + 1}
               </div>
-              <div className="text-3xl">{getAvatarEmoji(entry.avatarId)}</div>
+              <div className="text-3xl">
+                {getAvatarEmoji(entry.avatarId)}{entry.partnerAvatarId !== undefined && getAvatarEmoji(entry.partnerAvatarId)}
+              </div>
               <div className="flex-1 text-left">
-                <div className="text-white font-black tracking-widest text-sm uppercase">{entry.pilotName}</div>
+                <div className="text-white font-black tracking-widest text-sm uppercase">
+                  {entry.pilotName}{entry.partnerName !== undefined && ` & ${entry.partnerName}`}
+                </div>
                 <div className="flex gap-2 mt-1">
                   <span className="text-[9px] font-bold text-zinc-500 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5">
                     {themeIcons[entry.theme]} {entry.theme.replace('_', ' ')}
                   </span>
                   <span className={`text-[9px] font-bold uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5 ${
-                    entry.difficulty === 'HARD' ? 'text-red-500' : entry.difficulty === 'MEDIUM' ? 'text-yellow-500' : 'text-green-500'
+                    entry.difficulty === 'CUSTOM' ? 'text-purple-400' : entry.difficulty === 'HARD' ? 'text-red-500' : entry.difficulty === 'MEDIUM' ? 'text-yellow-500' : 'text-green-500'
                   }`}>
-                    {entry.difficulty}
+                    {entry.customPreset !== undefined ? `Custom • ${entry.customPreset}` : entry.difficulty}
+                  </span>
+                  <span className="text-[9px] font-bold text-zinc-500 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-white/5">
+                    {RULE_SETS[entry.ruleSet ?? RuleSet.HAZARDS_ONLY].label}
                   </span>
+                  {entry.adaptive && (
+                    <span className="text-[9px] font-bold text-purple-400 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-purple-500/20">
+                      Adaptive
+                    </span>
+                  )}
+                  {entry.levelId !== undefined && (
+                    <span className="text-[9px] font-bold text-blue-400 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-blue-500/20">
+                      {CAMPAIGN.find(l => l.id === entry.levelId)?.name ?? entry.levelId}
+                    </span>
+                  )}
+                  {entry.seed !== undefined && (
+                    <span className="text-[9px] font-bold text-green-400 uppercase px-2 py-0.5 bg-black/40 rounded-md border border-green-500/20">
+                      Seed #{entry.seed.toString(16).toUpperCase()}
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="text-right">
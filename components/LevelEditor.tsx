@@ -0,0 +1,284 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { LevelScript, DropScript, WaveScript, ObjectType, MotionPattern, PowerUpType, GameTheme } from '../types';
+import { THEME_DATA } from './GameConfig';
+import { LEVEL_LANES, DEFAULT_DROP_SPEED, DEFAULT_REST_MS, SCRIPT_DROP_KINDS, validateLevelScript, parseLevelScript, LevelScriptError } from './LevelScripts';
+
+interface LevelEditorProps {
+  level: LevelScript;
+  onChange: (level: LevelScript) => void;
+  onPreview: () => void;
+  onBack: () => void;
+}
+
+const PX_PER_SECOND = 60;
+const MIN_TIMELINE_MS = 10000;
+const TIME_SNAP_MS = 100;
+
+export const createBlankLevel = (): LevelScript => ({
+  id: 'custom-level',
+  name: 'Custom Level',
+  waves: [{ name: 'Wave 1', restAfterMs: DEFAULT_REST_MS, drops: [] }]
+});
+
+const dropX = (drop: DropScript) => drop.lane !== undefined ? (drop.lane + 0.5) / LEVEL_LANES : drop.x ?? 0.5;
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ level, onChange, onPreview, onBack }) => {
+  const [waveIndex, setWaveIndex] = useState(0);
+  const [selectedDrop, setSelectedDrop] = useState<number | null>(null);
+  const [tool, setTool] = useState<ObjectType>(ObjectType.GOOD);
+  const [toolPowerUp, setToolPowerUp] = useState<PowerUpType>(PowerUpType.SHIELD);
+  const [snapToLanes, setSnapToLanes] = useState(true);
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const issues = useMemo(() => validateLevelScript(level), [level]);
+  const tData = THEME_DATA[level.theme ?? GameTheme.COSMIC];
+  const wave = level.waves[Math.min(waveIndex, level.waves.length - 1)];
+  const drop = selectedDrop !== null ? wave.drops[selectedDrop] : undefined;
+  const timelineMs = Math.max(MIN_TIMELINE_MS, ...wave.drops.map(d => d.atMs + 3000));
+
+  const updateWave = (patch: Partial<WaveScript>) => {
+    onChange({ ...level, waves: level.waves.map((w, i) => i === waveIndex ? { ...w, ...patch } : w) });
+  };
+
+  const updateDrop = (patch: Partial<DropScript>) => {
+    if (selectedDrop === null) return;
+    updateWave({ drops: wave.drops.map((d, i) => i === selectedDrop ? { ...d, ...patch } : d) });
+  };
+
+  const getVariant = (d: DropScript) => {
+    if (d.kind === ObjectType.POWERUP) return d.powerUp ? tData.powerUps[d.powerUp] : '❔';
+    return d.kind === ObjectType.BAD ? tData.bad[0] : tData.good[0];
+  };
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const nx = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const atMs = Math.max(0, Math.round(((e.clientY - rect.top) / PX_PER_SECOND) * 1000 / TIME_SNAP_MS) * TIME_SNAP_MS);
+    const placed: DropScript = {
+      atMs,
+      kind: tool,
+      ...(snapToLanes ? { lane: Math.min(LEVEL_LANES - 1, Math.floor(nx * LEVEL_LANES)) } : { x: Math.round(nx * 100) / 100 }),
+      speed: DEFAULT_DROP_SPEED,
+      ...(tool === ObjectType.POWERUP ? { powerUp: toolPowerUp } : {})
+    };
+    updateWave({ drops: [...wave.drops, placed] });
+    setSelectedDrop(wave.drops.length);
+  };
+
+  const handleDeleteDrop = () => {
+    if (selectedDrop === null) return;
+    updateWave({ drops: wave.drops.filter((_, i) => i !== selectedDrop) });
+    setSelectedDrop(null);
+  };
+
+  const handleAddWave = () => {
+    onChange({ ...level, waves: [...level.waves, { name: `Wave ${level.waves.length + 1}`, restAfterMs: DEFAULT_REST_MS, drops: [] }] });
+    setWaveIndex(level.waves.length);
+    setSelectedDrop(null);
+  };
+
+  const handleRemoveWave = () => {
+    if (level.waves.length <= 1) return;
+    onChange({ ...level, waves: level.waves.filter((_, i) => i !== waveIndex) });
+    setWaveIndex(Math.max(0, waveIndex - 1));
+    setSelectedDrop(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(level, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.id || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseLevelScript(await file.text()));
+      setImportIssues([]);
+      setWaveIndex(0);
+      setSelectedDrop(null);
+    } catch (err) {
+      setImportIssues(err instanceof LevelScriptError ? err.issues : [(err as Error).message]);
+    }
+  };
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-xs font-bold focus:outline-none focus:border-green-500/50';
+  const labelClass = 'text-zinc-500 text-[9px] font-black uppercase tracking-widest';
+
+  return (
+    <div className="w-full max-w-7xl h-full p-6 flex flex-col gap-4 animate-in fade-in duration-500">
+      {/* Header */}
+      <div className="flex justify-between items-end">
+        <div className="space-y-1">
+          <h2 className="text-4xl font-black italic tracking-tighter text-white">SECTOR FORGE</h2>
+          <p className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">Wave Script Editor</p>
+        </div>
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all">Import JSON</button>
+          <button onClick={handleExport} className="px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all">Export JSON</button>
+          <button onClick={onPreview} className="px-6 py-3 bg-white text-zinc-950 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95">▶ Preview</button>
+          <button onClick={onBack} className="px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all">Close</button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-[16rem_1fr_16rem] gap-4">
+        {/* Level & Wave Settings */}
+        <div className="bg-zinc-900/60 rounded-3xl border border-white/5 p-4 space-y-3 overflow-y-auto">
+          <div className="space-y-1">
+            <label className={labelClass}>Level Id</label>
+            <input className={inputClass} value={level.id} onChange={e => onChange({ ...level, id: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Name</label>
+            <input className={inputClass} value={level.name} onChange={e => onChange({ ...level, name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Environment</label>
+            <select className={inputClass} value={level.theme ?? ''} onChange={e => onChange({ ...level, theme: (e.target.value || undefined) as GameTheme | undefined })}>
+              <option value="">Player's choice</option>
+              {Object.values(GameTheme).map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Lives (blank = difficulty default)</label>
+            <input className={inputClass} type="number" min={1} max={9} value={level.lives ?? ''} onChange={e => onChange({ ...level, lives: e.target.value ? Number(e.target.value) : undefined })} />
+          </div>
+
+          <div className="pt-3 border-t border-white/5 space-y-2">
+            <div className={labelClass}>Waves</div>
+            <div className="flex flex-wrap gap-1">
+              {level.waves.map((w, i) => (
+                <button
+                  key={i}
+                  onClick={() => { setWaveIndex(i); setSelectedDrop(null); }}
+                  className={`px-3 py-1.5 rounded-lg border text-[10px] font-black transition-all ${i === waveIndex ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+                >
+                  {i + 1}
+                </button>
+              ))}
+              <button onClick={handleAddWave} className="px-3 py-1.5 rounded-lg border border-dashed border-white/20 text-[10px] font-black text-zinc-400 hover:text-white">+</button>
+            </div>
+            <input className={inputClass} placeholder="Wave name" value={wave.name ?? ''} onChange={e => updateWave({ name: e.target.value || undefined })} />
+            <label className={labelClass}>Rest after wave (ms)</label>
+            <input className={inputClass} type="number" min={0} step={100} value={wave.restAfterMs ?? DEFAULT_REST_MS} onChange={e => updateWave({ restAfterMs: Number(e.target.value) })} />
+            <button onClick={handleRemoveWave} disabled={level.waves.length <= 1} className="w-full py-2 bg-white/5 border border-white/10 rounded-lg text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-red-400 disabled:opacity-30">Remove Wave</button>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="bg-zinc-900/60 rounded-3xl border border-white/5 p-4 flex flex-col gap-3 min-h-0">
+          <div className="flex items-center gap-2">
+            {SCRIPT_DROP_KINDS.map(kind => (
+              <button
+                key={kind}
+                onClick={() => setTool(kind)}
+                className={`px-3 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${tool === kind ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+              >
+                {getVariant({ atMs: 0, kind, powerUp: toolPowerUp })} {kind}
+              </button>
+            ))}
+            {tool === ObjectType.POWERUP && (
+              <select className="bg-white/5 border border-white/10 rounded-xl px-2 py-2 text-white text-[10px] font-black" value={toolPowerUp} onChange={e => setToolPowerUp(e.target.value as PowerUpType)}>
+                {Object.values(PowerUpType).map(p => <option key={p} value={p}>{p.replace('_', ' ')}</option>)}
+              </select>
+            )}
+            <label className="ml-auto flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+              <input type="checkbox" checked={snapToLanes} onChange={e => setSnapToLanes(e.target.checked)} className="accent-green-500" />
+              Snap to lanes
+            </label>
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar rounded-2xl border border-white/5 bg-black">
+            <div className="relative cursor-crosshair" style={{ height: (timelineMs / 1000) * PX_PER_SECOND }} onClick={handleTimelineClick}>
+              {/* Lane guides */}
+              {Array.from({ length: LEVEL_LANES - 1 }, (_, i) => (
+                <div key={i} className="absolute top-0 bottom-0 border-l border-white/5" style={{ left: `${((i + 1) / LEVEL_LANES) * 100}%` }} />
+              ))}
+              {/* Second markers */}
+              {Array.from({ length: Math.floor(timelineMs / 1000) }, (_, s) => (
+                <div key={s} className="absolute left-0 right-0 border-t border-white/5 text-[8px] font-mono text-zinc-700 pl-1" style={{ top: s * PX_PER_SECOND }}>
+                  {s}s
+                </div>
+              ))}
+              {wave.drops.map((d, i) => (
+                <button
+                  key={i}
+                  onClick={e => { e.stopPropagation(); setSelectedDrop(i); }}
+                  className={`absolute -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full flex items-center justify-center text-xl border-2 transition-all ${i === selectedDrop ? 'border-white bg-white/20 scale-110' : d.kind === ObjectType.BAD ? 'border-red-500/50 bg-red-500/10' : d.kind === ObjectType.POWERUP ? 'border-blue-400/50 bg-blue-400/10' : 'border-green-500/50 bg-green-500/10'}`}
+                  style={{ left: `${dropX(d) * 100}%`, top: (d.atMs / 1000) * PX_PER_SECOND }}
+                  title={`${d.kind} @ ${d.atMs}ms`}
+                >
+                  {getVariant(d)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Drop Inspector & Validation */}
+        <div className="bg-zinc-900/60 rounded-3xl border border-white/5 p-4 space-y-3 overflow-y-auto">
+          <div className={labelClass}>Selected Drop</div>
+          {drop ? (
+            <div className="space-y-2">
+              <label className={labelClass}>Kind</label>
+              <select className={inputClass} value={drop.kind} onChange={e => {
+                const kind = e.target.value as ObjectType;
+                updateDrop({ kind, powerUp: kind === ObjectType.POWERUP ? drop.powerUp ?? toolPowerUp : undefined });
+              }}>
+                {SCRIPT_DROP_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+              </select>
+              {drop.kind === ObjectType.POWERUP && (
+                <select className={inputClass} value={drop.powerUp ?? ''} onChange={e => updateDrop({ powerUp: e.target.value as PowerUpType })}>
+                  {Object.values(PowerUpType).map(p => <option key={p} value={p}>{p.replace('_', ' ')}</option>)}
+                </select>
+              )}
+              <label className={labelClass}>Time (ms into wave)</label>
+              <input className={inputClass} type="number" min={0} step={TIME_SNAP_MS} value={drop.atMs} onChange={e => updateDrop({ atMs: Number(e.target.value) })} />
+              {drop.lane !== undefined ? (
+                <>
+                  <label className={labelClass}>Lane (0-{LEVEL_LANES - 1})</label>
+                  <input className={inputClass} type="number" min={0} max={LEVEL_LANES - 1} value={drop.lane} onChange={e => updateDrop({ lane: Number(e.target.value) })} />
+                </>
+              ) : (
+                <>
+                  <label className={labelClass}>X (0-1)</label>
+                  <input className={inputClass} type="number" min={0} max={1} step={0.01} value={drop.x ?? 0.5} onChange={e => updateDrop({ x: Number(e.target.value) })} />
+                </>
+              )}
+              <label className={labelClass}>Speed</label>
+              <input className={inputClass} type="number" min={1} max={20} step={0.5} value={drop.speed ?? DEFAULT_DROP_SPEED} onChange={e => updateDrop({ speed: Number(e.target.value) })} />
+              <label className={labelClass}>Pattern</label>
+              <select className={inputClass} value={drop.pattern ?? MotionPattern.STRAIGHT} onChange={e => updateDrop({ pattern: e.target.value as MotionPattern })}>
+                {Object.values(MotionPattern).map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+              <button onClick={handleDeleteDrop} className="w-full py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-[9px] font-black uppercase tracking-widest text-red-400">Delete Drop</button>
+            </div>
+          ) : (
+            <p className="text-zinc-600 text-[10px] font-bold leading-snug">Click the timeline to place a drop, or click a drop to edit it.</p>
+          )}
+
+          <div className="pt-3 border-t border-white/5 space-y-2">
+            <div className={labelClass}>Validation</div>
+            {[...importIssues.map(i => `import: ${i}`), ...issues].length === 0 ? (
+              <p className="text-green-400 text-[10px] font-black uppercase tracking-widest">Script valid</p>
+            ) : (
+              <ul className="space-y-1 font-mono text-[10px] text-red-300">
+                {[...importIssues.map(i => `import: ${i}`), ...issues].map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
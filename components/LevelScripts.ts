@@ -0,0 +1,150 @@
+import { LevelScript, ObjectType, MotionPattern, PowerUpType, GameTheme } from '../types';
+import { CompiledLevel, ScriptedDrop, DEFAULT_WORLD_WIDTH, SPAWN_MARGIN } from './GameSimulation';
+import campaignData from '../levels/campaign.json';
+
+export const LEVEL_LANES = 7;
+export const DEFAULT_DROP_SPEED = 5;
+export const DEFAULT_REST_MS = 2000;
+const MIN_DROP_SPEED = 1;
+const MAX_DROP_SPEED = 20;
+const MAX_LIVES = 9;
+// Charges only mean something during boss fights, which scripted levels never have
+export const SCRIPT_DROP_KINDS = [ObjectType.GOOD, ObjectType.BAD, ObjectType.POWERUP];
+
+export class LevelScriptError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid level script:\n${issues.join('\n')}`);
+    this.name = 'LevelScriptError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+// Returns one readable message per problem, each prefixed with the JSON path it refers to
+export const validateLevelScript = (data: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(data)) return ['level: must be an object'];
+
+  if (typeof data.id !== 'string' || data.id.trim() === '') issues.push('id: must be a non-empty string');
+  if (typeof data.name !== 'string' || data.name.trim() === '') issues.push('name: must be a non-empty string');
+  if (data.description !== undefined && typeof data.description !== 'string') issues.push('description: must be a string');
+  if (data.theme !== undefined && !isOneOf(GameTheme, data.theme)) {
+    issues.push(`theme: must be one of ${Object.values(GameTheme).join(', ')}`);
+  }
+  if (data.lives !== undefined && (!Number.isInteger(data.lives) || (data.lives as number) < 1 || (data.lives as number) > MAX_LIVES)) {
+    issues.push(`lives: must be an integer from 1 to ${MAX_LIVES}`);
+  }
+
+  if (!Array.isArray(data.waves) || data.waves.length === 0) {
+    issues.push('waves: must be a non-empty array');
+    return issues;
+  }
+
+  data.waves.forEach((wave: unknown, w: number) => {
+    const path = `waves[${w}]`;
+    if (!isRecord(wave)) {
+      issues.push(`${path}: must be an object`);
+      return;
+    }
+    if (wave.name !== undefined && typeof wave.name !== 'string') issues.push(`${path}.name: must be a string`);
+    if (wave.restAfterMs !== undefined && (!isNumber(wave.restAfterMs) || wave.restAfterMs < 0)) {
+      issues.push(`${path}.restAfterMs: must be a number >= 0`);
+    }
+    if (!Array.isArray(wave.drops) || wave.drops.length === 0) {
+      issues.push(`${path}.drops: must be a non-empty array`);
+      return;
+    }
+
+    wave.drops.forEach((drop: unknown, d: number) => {
+      const dropPath = `${path}.drops[${d}]`;
+      if (!isRecord(drop)) {
+        issues.push(`${dropPath}: must be an object`);
+        return;
+      }
+      if (!isNumber(drop.atMs) || drop.atMs < 0) issues.push(`${dropPath}.atMs: must be a number >= 0`);
+      if (!SCRIPT_DROP_KINDS.includes(drop.kind as ObjectType)) issues.push(`${dropPath}.kind: must be one of ${SCRIPT_DROP_KINDS.join(', ')}`);
+
+      if ((drop.lane === undefined) === (drop.x === undefined)) {
+        issues.push(`${dropPath}: set exactly one of "lane" or "x"`);
+      } else if (drop.lane !== undefined && (!Number.isInteger(drop.lane) || (drop.lane as number) < 0 || (drop.lane as number) >= LEVEL_LANES)) {
+        issues.push(`${dropPath}.lane: must be an integer from 0 to ${LEVEL_LANES - 1}`);
+      } else if (drop.x !== undefined && (!isNumber(drop.x) || drop.x < 0 || drop.x > 1)) {
+        issues.push(`${dropPath}.x: must be a number from 0 to 1`);
+      }
+
+      if (drop.speed !== undefined && (!isNumber(drop.speed) || drop.speed < MIN_DROP_SPEED || drop.speed > MAX_DROP_SPEED)) {
+        issues.push(`${dropPath}.speed: must be a number from ${MIN_DROP_SPEED} to ${MAX_DROP_SPEED}`);
+      }
+      if (drop.pattern !== undefined && !isOneOf(MotionPattern, drop.pattern)) {
+        issues.push(`${dropPath}.pattern: must be one of ${Object.values(MotionPattern).join(', ')}`);
+      }
+      if (drop.kind === ObjectType.POWERUP && !isOneOf(PowerUpType, drop.powerUp)) {
+        issues.push(`${dropPath}.powerUp: POWERUP drops need one of ${Object.values(PowerUpType).join(', ')}`);
+      } else if (drop.kind !== ObjectType.POWERUP && drop.powerUp !== undefined) {
+        issues.push(`${dropPath}.powerUp: only allowed on POWERUP drops`);
+      }
+    });
+  });
+
+  return issues;
+};
+
+export const parseLevelScript = (json: string): LevelScript => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new LevelScriptError([`json: ${(err as Error).message}`]);
+  }
+  const issues = validateLevelScript(data);
+  if (issues.length > 0) throw new LevelScriptError(issues);
+  return data as LevelScript;
+};
+
+export const laneToX = (lane: number, worldWidth: number = DEFAULT_WORLD_WIDTH) => {
+  const span = worldWidth - SPAWN_MARGIN * 2;
+  return SPAWN_MARGIN + (span * (lane + 0.5)) / LEVEL_LANES;
+};
+
+export const normalizedToX = (x: number, worldWidth: number = DEFAULT_WORLD_WIDTH) =>
+  SPAWN_MARGIN + x * (worldWidth - SPAWN_MARGIN * 2);
+
+// Flattens a validated script into absolute spawn times for the simulation
+export const compileLevel = (level: LevelScript, worldWidth: number = DEFAULT_WORLD_WIDTH): CompiledLevel => {
+  const drops: ScriptedDrop[] = [];
+  let waveStart = 0;
+  let endMs = 0;
+
+  level.waves.forEach((wave, w) => {
+    let waveEnd = waveStart;
+    wave.drops.forEach(drop => {
+      const atMs = waveStart + drop.atMs;
+      waveEnd = Math.max(waveEnd, atMs);
+      drops.push({
+        atMs,
+        wave: w + 1,
+        x: drop.lane !== undefined ? laneToX(drop.lane, worldWidth) : normalizedToX(drop.x ?? 0.5, worldWidth),
+        type: drop.kind,
+        speed: drop.speed ?? DEFAULT_DROP_SPEED,
+        motion: drop.pattern ?? MotionPattern.STRAIGHT,
+        powerUp: drop.powerUp
+      });
+    });
+    endMs = waveEnd;
+    waveStart = waveEnd + (wave.restAfterMs ?? DEFAULT_REST_MS);
+  });
+
+  // Stable sort keeps authoring order for drops sharing a timestamp
+  drops.sort((a, b) => a.atMs - b.atMs);
+  return { drops, waveCount: level.waves.length, endMs };
+};
+
+// Hand-authored campaign. Validated like any other script when a run starts.
+export const CAMPAIGN = campaignData as unknown as LevelScript[];
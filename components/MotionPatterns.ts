@@ -0,0 +1,96 @@
+import { GameObject, ObjectType, MotionPattern } from '../types';
+
+export interface MotionContext {
+  fall: number;     // Vertical multiplier for this tick (gravity * difficulty * slow-motion)
+  targetX: number;  // Paddle centre in world coordinates
+  minX: number;
+  maxX: number;
+}
+
+interface MotionUnlock {
+  motion: MotionPattern;
+  minDifficulty: number;
+  types: ObjectType[];
+}
+
+// Patterns join the spawn pool as the level rises, so later levels play differently, not just faster
+export const MOTION_UNLOCKS: MotionUnlock[] = [
+  { motion: MotionPattern.SINE, minDifficulty: 1.5, types: [ObjectType.GOOD, ObjectType.BAD, ObjectType.POWERUP] },
+  { motion: MotionPattern.ZIGZAG, minDifficulty: 2, types: [ObjectType.GOOD, ObjectType.BAD] },
+  { motion: MotionPattern.ACCELERATE, minDifficulty: 2.5, types: [ObjectType.GOOD, ObjectType.BAD] },
+  { motion: MotionPattern.HOMING, minDifficulty: 3, types: [ObjectType.BAD] },
+  { motion: MotionPattern.SPLIT, minDifficulty: 3.5, types: [ObjectType.GOOD] }
+];
+
+const PATTERN_CHANCE = 0.6;
+const SINE_AMPLITUDE = 3;
+const SINE_FREQUENCY = 0.06;
+const ZIGZAG_SPEED = 3.5;
+const ACCELERATION = 0.04;
+const HOMING_TURN = 0.08;
+const HOMING_MAX_SPEED = 2.5;
+const SPLIT_Y = 220;
+const SPLIT_SPEED = 2.2;
+const SPLIT_RADIUS_FACTOR = 0.7;
+
+// Both helpers draw a fixed number of values whatever they pick, so the drops that follow
+// come from the same point in the stream at every level
+export const pickMotion = (type: ObjectType, difficulty: number, random: () => number): MotionPattern => {
+  const chance = random();
+  const pick = random();
+  const pool = MOTION_UNLOCKS.filter(u => difficulty >= u.minDifficulty && u.types.includes(type));
+  if (pool.length === 0 || chance >= PATTERN_CHANCE) return MotionPattern.STRAIGHT;
+  return pool[Math.floor(pick * pool.length)].motion;
+};
+
+export const initMotion = (obj: GameObject, motion: MotionPattern, random: () => number) => {
+  const roll = random();
+  obj.horizontalVel = 0;
+  obj.phase = 0;
+  if (motion === MotionPattern.SINE) obj.phase = roll * Math.PI * 2;
+  else if (motion === MotionPattern.ZIGZAG) obj.horizontalVel = roll < 0.5 ? -ZIGZAG_SPEED : ZIGZAG_SPEED;
+};
+
+// Advances the object by one tick, in place (objects are pooled and reused)
+export const applyMotion = (obj: GameObject, ctx: MotionContext) => {
+  let horizontalVel = obj.horizontalVel ?? 0;
+
+  switch (obj.motion) {
+    case MotionPattern.SINE:
+      obj.phase = (obj.phase ?? 0) + SINE_FREQUENCY;
+      horizontalVel = Math.cos(obj.phase) * SINE_AMPLITUDE;
+      break;
+    case MotionPattern.ACCELERATE:
+      obj.speed += ACCELERATION;
+      break;
+    case MotionPattern.HOMING:
+      horizontalVel += Math.sign(ctx.targetX - obj.x) * HOMING_TURN;
+      horizontalVel = Math.max(-HOMING_MAX_SPEED, Math.min(HOMING_MAX_SPEED, horizontalVel));
+      break;
+  }
+
+  obj.x += horizontalVel;
+
+  // Zigzags (and split halves) bounce; everything else is simply kept on screen
+  if (obj.x < ctx.minX || obj.x > ctx.maxX) {
+    obj.x = Math.max(ctx.minX, Math.min(ctx.maxX, obj.x));
+    if (obj.motion === MotionPattern.ZIGZAG) horizontalVel = -horizontalVel;
+  }
+
+  obj.horizontalVel = horizontalVel;
+  obj.y += obj.speed * ctx.fall;
+};
+
+export const shouldSplit = (obj: GameObject) => obj.motion === MotionPattern.SPLIT && obj.y >= SPLIT_Y;
+
+// Turns `obj` into the left half and fills `right` (a spare record) as the right half
+export const splitObject = (obj: GameObject, right: GameObject, leftId: number, rightId: number) => {
+  obj.id = leftId;
+  obj.radius *= SPLIT_RADIUS_FACTOR;
+  obj.motion = MotionPattern.ZIGZAG;
+  obj.phase = 0;
+  obj.horizontalVel = -SPLIT_SPEED;
+  Object.assign(right, obj);
+  right.id = rightId;
+  right.horizontalVel = SPLIT_SPEED;
+};
@@ -0,0 +1,59 @@
+import { GameObject, ObjectType } from '../types';
+
+// Where the simulation gets GameObject records from and returns them to
+export interface ObjectSource {
+  acquire: () => GameObject;
+  release: (obj: GameObject) => void;
+  flush: () => void;
+}
+
+export const createBlankObject = (): GameObject => ({
+  id: 0,
+  x: 0,
+  y: 0,
+  prevX: 0,
+  prevY: 0,
+  radius: 0,
+  speed: 0,
+  type: ObjectType.GOOD,
+  variant: '',
+  powerUp: undefined,
+  owner: undefined,
+  motion: undefined,
+  horizontalVel: 0,
+  phase: 0
+});
+
+// Plain allocation, for pure stepping where states must never share objects
+export const UNPOOLED: ObjectSource = {
+  acquire: createBlankObject,
+  release: () => {},
+  flush: () => {}
+};
+
+const DEFAULT_CAPACITY = 256;
+
+// Preallocated GameObject records reused across spawns. Released objects only rejoin the free
+// list on the next flush(), so events from the tick that removed them can still be read.
+export class ObjectPool implements ObjectSource {
+  private free: GameObject[];
+  private released: GameObject[] = [];
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.free = Array.from({ length: capacity }, createBlankObject);
+  }
+
+  public acquire = (): GameObject => this.free.pop() ?? createBlankObject();
+
+  public release = (obj: GameObject) => {
+    this.released.push(obj);
+  };
+
+  public flush = () => {
+    while (this.released.length > 0) this.free.push(this.released.pop()!);
+  };
+
+  public get available() {
+    return this.free.length;
+  }
+}
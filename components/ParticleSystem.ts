@@ -0,0 +1,208 @@
+import { EffectsIntensity } from '../types';
+
+export type ParticleShape = 'spark' | 'pixel' | 'dot';
+
+// Per-theme look of catch bursts and hazard explosions
+export interface EffectPreset {
+  shape: ParticleShape;
+  burstCount: number;
+  burstSpeed: number;   // World units per second
+  lifeMs: number;
+  gravity: number;      // World units per second squared
+  explosionColors: string[];
+  shake: number;        // Peak screen shake in world units
+  glow: boolean;
+}
+
+interface Particle {
+  active: boolean;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  ageMs: number;
+  lifeMs: number;
+  size: number;
+  color: string;
+  shape: ParticleShape;
+}
+
+interface FloatingText {
+  active: boolean;
+  x: number;
+  y: number;
+  ageMs: number;
+  text: string;
+  color: string;
+  size: number;
+}
+
+export const EFFECTS_SCALE: Record<EffectsIntensity, number> = {
+  [EffectsIntensity.OFF]: 0,
+  [EffectsIntensity.REDUCED]: 0.4,
+  [EffectsIntensity.FULL]: 1
+};
+
+const MAX_PARTICLES = 512;
+const MAX_TEXTS = 32;
+const TEXT_LIFE_MS = 900;
+const TEXT_RISE = 60;
+const FLASH_MS = 350;
+const SHAKE_MS = 250;
+
+// Fixed-size pools: spawning reuses dead slots, so steady gameplay allocates nothing
+export class ParticleSystem {
+  private particles: Particle[] = Array.from({ length: MAX_PARTICLES }, () => ({
+    active: false, x: 0, y: 0, vx: 0, vy: 0, ageMs: 0, lifeMs: 0, size: 0, color: '', shape: 'dot' as ParticleShape
+  }));
+  private texts: FloatingText[] = Array.from({ length: MAX_TEXTS }, () => ({
+    active: false, x: 0, y: 0, ageMs: 0, text: '', color: '', size: 0
+  }));
+  private freeParticles: number[] = Array.from({ length: MAX_PARTICLES }, (_, i) => MAX_PARTICLES - 1 - i);
+  private nextText = 0;
+  private flashMs = 0;
+  private flashColor = '';
+  private flashText = '';
+  private shakeMs = 0;
+  private shakeStrength = 0;
+  private scale = 1;
+
+  constructor(private preset: EffectPreset, intensity: EffectsIntensity) {
+    this.scale = EFFECTS_SCALE[intensity];
+  }
+
+  private emit(x: number, y: number, count: number, speed: number, colors: string[], sizeRange: [number, number]) {
+    const n = Math.round(count * this.scale);
+    for (let i = 0; i < n && this.freeParticles.length > 0; i++) {
+      const p = this.particles[this.freeParticles.pop()!];
+      const angle = Math.random() * Math.PI * 2;
+      const v = speed * (0.4 + Math.random() * 0.6);
+      p.active = true;
+      p.x = x;
+      p.y = y;
+      p.vx = Math.cos(angle) * v;
+      p.vy = Math.sin(angle) * v;
+      p.ageMs = 0;
+      p.lifeMs = this.preset.lifeMs * (0.6 + Math.random() * 0.4);
+      p.size = sizeRange[0] + Math.random() * (sizeRange[1] - sizeRange[0]);
+      p.color = colors[i % colors.length];
+      p.shape = this.preset.shape;
+    }
+  }
+
+  public burst(x: number, y: number, accent: string) {
+    this.emit(x, y, this.preset.burstCount, this.preset.burstSpeed, [accent, '#ffffff'], [2, 4]);
+  }
+
+  public explode(x: number, y: number, power: number = 1) {
+    this.emit(x, y, this.preset.burstCount * 2 * power, this.preset.burstSpeed * 1.4, this.preset.explosionColors, [3, 6]);
+    this.shake(this.preset.shake * power);
+  }
+
+  public floatText(x: number, y: number, text: string, color: string, size: number = 22) {
+    if (this.scale === 0) return;
+    const t = this.texts[this.nextText];
+    this.nextText = (this.nextText + 1) % MAX_TEXTS;
+    t.active = true;
+    t.x = x;
+    t.y = y;
+    t.ageMs = 0;
+    t.text = text;
+    t.color = color;
+    t.size = size;
+  }
+
+  public flash(color: string, text: string) {
+    if (this.scale === 0) return;
+    this.flashMs = FLASH_MS;
+    this.flashColor = color;
+    this.flashText = text;
+  }
+
+  public shake(strength: number) {
+    if (this.scale === 0) return;
+    const residual = this.shakeStrength * (this.shakeMs / SHAKE_MS);
+    this.shakeMs = SHAKE_MS;
+    this.shakeStrength = Math.max(residual, strength * this.scale);
+  }
+
+  public update(dtMs: number) {
+    const dt = dtMs / 1000;
+    for (let i = 0; i < MAX_PARTICLES; i++) {
+      const p = this.particles[i];
+      if (!p.active) continue;
+      p.ageMs += dtMs;
+      if (p.ageMs >= p.lifeMs) {
+        p.active = false;
+        this.freeParticles.push(i);
+        continue;
+      }
+      p.vy += this.preset.gravity * dt;
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+    }
+    for (const t of this.texts) {
+      if (!t.active) continue;
+      t.ageMs += dtMs;
+      if (t.ageMs >= TEXT_LIFE_MS) t.active = false;
+    }
+    this.flashMs = Math.max(0, this.flashMs - dtMs);
+    this.shakeMs = Math.max(0, this.shakeMs - dtMs);
+    if (this.shakeMs === 0) this.shakeStrength = 0;
+  }
+
+  // Random offset for this frame, decaying over the shake's lifetime
+  public getShakeOffset(): [number, number] {
+    if (this.shakeMs === 0) return [0, 0];
+    const s = this.shakeStrength * (this.shakeMs / SHAKE_MS);
+    return [(Math.random() * 2 - 1) * s, (Math.random() * 2 - 1) * s];
+  }
+
+  public render(ctx: CanvasRenderingContext2D, worldWidth: number, worldHeight: number) {
+    ctx.save();
+    if (this.preset.glow) ctx.globalCompositeOperation = 'lighter';
+    for (const p of this.particles) {
+      if (!p.active) continue;
+      ctx.globalAlpha = 1 - p.ageMs / p.lifeMs;
+      ctx.fillStyle = p.color;
+      ctx.strokeStyle = p.color;
+      if (p.shape === 'pixel') {
+        ctx.fillRect(p.x - p.size / 2, p.y - p.size / 2, p.size, p.size);
+      } else if (p.shape === 'spark') {
+        ctx.lineWidth = p.size / 2;
+        ctx.beginPath();
+        ctx.moveTo(p.x, p.y);
+        ctx.lineTo(p.x - p.vx * 0.04, p.y - p.vy * 0.04);
+        ctx.stroke();
+      } else {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    ctx.globalCompositeOperation = 'source-over';
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const t of this.texts) {
+      if (!t.active) continue;
+      const progress = t.ageMs / TEXT_LIFE_MS;
+      ctx.globalAlpha = 1 - progress;
+      ctx.font = `900 italic ${t.size}px Inter`;
+      ctx.fillStyle = t.color;
+      ctx.fillText(t.text, t.x, t.y - progress * TEXT_RISE);
+    }
+
+    if (this.flashMs > 0) {
+      const progress = this.flashMs / FLASH_MS;
+      ctx.globalAlpha = progress * 0.25;
+      ctx.fillStyle = this.flashColor;
+      ctx.fillRect(0, 0, worldWidth, worldHeight);
+      ctx.globalAlpha = progress;
+      ctx.font = '900 italic 64px Inter';
+      ctx.fillStyle = 'white';
+      ctx.fillText(this.flashText, worldWidth / 2, worldHeight * 0.4);
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PauseReason, GestureType } from '../types';
+import { GESTURES } from './GameConfig';
+
+const RESUME_COUNTDOWN = 3;
+
+const PAUSE_LABELS: Record<PauseReason, string> = {
+  [PauseReason.MANUAL]: 'Sync suspended',
+  [PauseReason.HIDDEN]: 'Tab hidden',
+  [PauseReason.BLUR]: 'Window lost focus',
+  [PauseReason.HAND_LOST]: 'Signal lost • Raise your hand to resume'
+};
+
+// Pause state shared by every play scene: manual and automatic pauses, resumed through a 3-2-1 countdown.
+// The game counts as paused during the countdown too.
+export const usePauseControl = () => {
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  // The first reason sticks, so a blur during a manual pause doesn't change how it resumes
+  const pause = useCallback((reason: PauseReason) => {
+    setCountdown(null);
+    setPauseReason(current => current ?? reason);
+  }, []);
+
+  const resume = useCallback(() => {
+    setPauseReason(null);
+    setCountdown(RESUME_COUNTDOWN);
+  }, []);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    const timer = setTimeout(() => setCountdown(countdown > 1 ? countdown - 1 : null), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) pause(PauseReason.HIDDEN);
+    };
+    const handleBlur = () => pause(PauseReason.BLUR);
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [pause]);
+
+  return { pauseReason, countdown, isPaused: pauseReason !== null || countdown !== null, pause, resume };
+};
+
+interface PauseOverlayProps {
+  pauseReason: PauseReason | null;
+  countdown: number | null;
+  showGestures?: boolean; // VISION runs can resume from the lens
+}
+
+export const PauseOverlay: React.FC<PauseOverlayProps> = ({ pauseReason, countdown, showGestures = false }) => (
+  <>
+    {pauseReason && (
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-md flex flex-col items-center justify-center gap-4">
+         <div className="text-white font-black text-6xl italic tracking-tighter animate-pulse">PAUSED</div>
+         <div className="text-zinc-400 text-[10px] font-black uppercase tracking-widest">{PAUSE_LABELS[pauseReason]}</div>
+         {showGestures && pauseReason !== PauseReason.HAND_LOST && (
+           <div className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">
+             {GESTURES[GestureType.FIST].icon} Fist or {GESTURES[GestureType.SWIPE_RIGHT].icon} Swipe to resume
+           </div>
+         )}
+      </div>
+    )}
+
+    {countdown !== null && (
+      <div className="absolute inset-0 bg-black/30 flex items-center justify-center pointer-events-none">
+         <div key={countdown} className="text-white font-black text-9xl italic tracking-tighter animate-in zoom-in fade-in duration-300">{countdown}</div>
+      </div>
+    )}
+  </>
+);
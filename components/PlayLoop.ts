@@ -0,0 +1,155 @@
+import { useEffect, useRef, useCallback, useMemo } from 'react';
+import { InputMode, PauseReason, GestureType } from '../types';
+import { FIXED_STEP_MS } from './GameSimulation';
+import { usePauseControl } from './PauseControl';
+import { InputProvider, HandProvider, BOOST_KEYS } from './InputProviders';
+import { Viewport, clientToHandX } from './Viewport';
+
+// Longest frame gap the fixed-step loop will catch up on (prevents a spiral after tab switches)
+const MAX_FRAME_MS = 100;
+
+// One paddle as last sampled from its provider; doubles as that paddle's simulation input
+export interface LivePaddle {
+  handX: number;
+  isHandDetected: boolean;
+  boost: boolean; // Fired since the last tick
+  handLostMs: number;
+}
+
+interface PlayLoopOptions {
+  inputMode: InputMode;
+  paddleInputs: InputProvider[];
+  handLostTimeoutMs: number; // VISION mode only; 0 never auto-pauses
+  isReady: boolean; // The loop holds until the field is sized and the run can start
+  // The canvas pointer input maps onto
+  canvasRef: { current: HTMLCanvasElement | null };
+  viewport: Viewport;
+  worldWidth: number;
+  step: () => boolean; // One fixed tick on the sampled paddles; true ends the run
+  render: (dt: number) => void;
+  syncUi: () => void; // Low-frequency HUD sync (10 times per second)
+}
+
+const createLivePaddle = (): LivePaddle => ({ handX: 0.5, isHandDetected: true, boost: false, handLostMs: 0 });
+
+// The frame loop shared by every play scene: samples each paddle's provider, steps the simulation at a
+// fixed rate, pauses when a hand leaves the lens and resumes when it returns, and fires boosts from keys
+// and raised hands. The scene supplies the tick, the drawing and the HUD sync.
+export const usePlayLoop = ({ inputMode, paddleInputs, handLostTimeoutMs, isReady, canvasRef, viewport, worldWidth, step, render, syncUi }: PlayLoopOptions) => {
+  const pauseControl = usePauseControl();
+  const { pauseReason, isPaused, pause, resume } = pauseControl;
+  const paddles = useMemo(() => paddleInputs.map(createLivePaddle), [paddleInputs]);
+
+  // Latest callbacks, so a scene re-rendering its HUD never restarts the loop
+  const scene = useRef({ step, render, syncUi });
+  scene.current = { step, render, syncUi };
+
+  const togglePause = useCallback(() => {
+    if (pauseReason) resume();
+    else pause(PauseReason.MANUAL);
+  }, [pauseReason, pause, resume]);
+
+  // Co-op and versus split the lens: the left half steers player 1, the right half player 2
+  const handleHandUpdate = useCallback((x: number, detected: boolean, region: number) => {
+    const provider = paddleInputs[region];
+    if (provider instanceof HandProvider) provider.push(x, detected);
+  }, [paddleInputs]);
+
+  // Any fist toggles the pause like the button does, and a swipe also resumes; a raised hand fires its
+  // own paddle's boost
+  const handleGesture = useCallback((gesture: GestureType, region: number) => {
+    if (gesture === GestureType.FIST) togglePause();
+    else if ((gesture === GestureType.SWIPE_LEFT || gesture === GestureType.SWIPE_RIGHT) && pauseReason) resume();
+    else if (gesture === GestureType.RAISE && !isPaused && paddles[region]) paddles[region].boost = true;
+  }, [togglePause, pauseReason, resume, isPaused, paddles]);
+
+  useEffect(() => {
+    if (isPaused) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const player = BOOST_KEYS.indexOf(e.key);
+      if (player < 0) return;
+      // Space and Enter still press a focused control, so the pause and abort buttons stay keyboard-reachable
+      const { target } = e;
+      if (target instanceof HTMLButtonElement || target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      // Solo runs take either key
+      paddles[Math.min(player, paddles.length - 1)].boost = true;
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isPaused, paddles]);
+
+  // Providers only listen while the run is live, so input during a pause never moves a paddle
+  useEffect(() => {
+    if (isPaused) return;
+    const toHandX = (clientX: number) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      return rect ? clientToHandX(clientX, rect, viewport, worldWidth) : null;
+    };
+    paddleInputs.forEach(p => p.attach(toHandX));
+    return () => paddleInputs.forEach(p => p.detach());
+  }, [paddleInputs, isPaused, canvasRef, viewport, worldWidth]);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    let frameId: number;
+    // Frame deltas restart from zero, so time spent paused never reaches the simulation
+    let lastTime: number | null = null;
+    let accumulator = 0;
+
+    // Copies each provider's paddle; stepMs 0 just reads without moving
+    const sampleInputs = (stepMs: number) => {
+      paddles.forEach((paddle, i) => {
+        const input = paddleInputs[i].poll(stepMs);
+        paddle.handX = input.handX;
+        paddle.isHandDetected = input.isHandDetected;
+      });
+    };
+
+    const loop = (time: number) => {
+      if (isPaused) {
+        sampleInputs(0);
+        paddles.forEach(p => { p.boost = false; });
+        if (pauseReason === PauseReason.HAND_LOST && paddles.every(p => p.isHandDetected)) resume();
+        frameId = requestAnimationFrame(loop);
+        return;
+      }
+
+      const dt = Math.min(lastTime === null ? 0 : time - lastTime, MAX_FRAME_MS);
+      lastTime = time;
+      accumulator += dt;
+
+      if (inputMode === InputMode.VISION && handLostTimeoutMs > 0) {
+        for (const paddle of paddles) paddle.handLostMs = paddle.isHandDetected ? 0 : paddle.handLostMs + dt;
+        if (paddles.some(p => p.handLostMs >= handLostTimeoutMs)) {
+          paddles.forEach(p => { p.handLostMs = 0; });
+          pause(PauseReason.HAND_LOST);
+          return;
+        }
+      }
+
+      // Fixed-step simulation: the render rate never changes game rules
+      while (accumulator >= FIXED_STEP_MS) {
+        accumulator -= FIXED_STEP_MS;
+        sampleInputs(FIXED_STEP_MS);
+        const isOver = scene.current.step();
+        paddles.forEach(p => { p.boost = false; });
+        if (isOver) return;
+      }
+
+      scene.current.render(dt);
+      frameId = requestAnimationFrame(loop);
+    };
+
+    frameId = requestAnimationFrame(loop);
+    const uiInterval = setInterval(() => scene.current.syncUi(), 100);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      clearInterval(uiInterval);
+    };
+  }, [isReady, isPaused, pauseReason, pause, resume, inputMode, paddleInputs, paddles, handLostTimeoutMs]);
+
+  return { ...pauseControl, togglePause, paddles, handleHandUpdate, handleGesture };
+};
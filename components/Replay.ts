@@ -0,0 +1,123 @@
+import { ReplayLog } from '../types';
+import { PaddleInput, SimulationInput, SimulationState, createSimulation, stepSimulation, advanceSimulation, SimulationEvent } from './GameSimulation';
+import { buildSimulationSettings } from './GameConfig';
+import { ObjectPool } from './ObjectPool';
+
+// Bump whenever simulation rules change: older logs would no longer reproduce their runs
+export const REPLAY_VERSION = 8;
+
+const HAND_STEPS = 4095;
+const DETECTED_FLAG = 4096;
+const PADDLE_BITS = 13;
+const PADDLE_MASK = (1 << PADDLE_BITS) - 1;
+const PARTNER_FLAG = 1 << (PADDLE_BITS * 2);
+const BOOST_FLAG = PARTNER_FLAG << 1;
+
+const packPaddle = (input: PaddleInput): number =>
+  Math.round(Math.max(0, Math.min(1, input.handX)) * HAND_STEPS) | (input.isHandDetected ? DETECTED_FLAG : 0);
+
+const unpackPaddle = (packed: number): PaddleInput => ({
+  handX: (packed & HAND_STEPS) / HAND_STEPS,
+  isHandDetected: (packed & DETECTED_FLAG) !== 0
+});
+
+// Packs one tick of input into 13 bits per paddle (a co-op partner rides in the next 13), then a boost bit.
+// Live runs feed the unpacked value to the simulation so that playback sees exactly the same numbers.
+export const packInput = (input: SimulationInput): number =>
+  packPaddle(input)
+  | (input.partner ? (packPaddle(input.partner) << PADDLE_BITS) | PARTNER_FLAG : 0)
+  | (input.boost ? BOOST_FLAG : 0);
+
+export const unpackInput = (packed: number): SimulationInput => {
+  const input: SimulationInput = unpackPaddle(packed & PADDLE_MASK);
+  if (packed & PARTNER_FLAG) input.partner = unpackPaddle((packed >>> PADDLE_BITS) & PADDLE_MASK);
+  if (packed & BOOST_FLAG) input.boost = true;
+  return input;
+};
+
+// Inputs are stored run-length encoded as [packed, count, packed, count, ...]
+export const appendInput = (inputs: number[], packed: number) => {
+  const last = inputs.length - 2;
+  if (last >= 0 && inputs[last] === packed) {
+    inputs[last + 1]++;
+  } else {
+    inputs.push(packed, 1);
+  }
+};
+
+export const expandInputs = (inputs: number[]): number[] => {
+  const ticks: number[] = [];
+  for (let i = 0; i < inputs.length; i += 2) {
+    for (let n = 0; n < inputs[i + 1]; n++) ticks.push(inputs[i]);
+  }
+  return ticks;
+};
+
+// Personal-best ghosts are matched on everything that shapes the drop sequence
+export const getGhostKey = (replay: Pick<ReplayLog, 'seed' | 'theme' | 'difficulty' | 'ruleSet'>) =>
+  `${replay.seed}:${replay.theme}:${replay.difficulty}:${replay.ruleSet}`;
+
+export const isReplayCompatible = (replay: ReplayLog) => replay.version === REPLAY_VERSION;
+
+// Re-simulates a run. Keeps a snapshot every `checkpointEvery` ticks so scrubbing stays cheap.
+export const buildReplayTimeline = (replay: ReplayLog, checkpointEvery: number = 300) => {
+  const settings = buildSimulationSettings(replay);
+  const ticks = expandInputs(replay.inputs);
+  const checkpoints: SimulationState[] = [createSimulation(settings, replay.seed)];
+
+  let state = checkpoints[0];
+  for (let t = 0; t < ticks.length; t++) {
+    state = stepSimulation(state, unpackInput(ticks[t]), settings).state;
+    if ((t + 1) % checkpointEvery === 0) checkpoints.push(state);
+  }
+
+  // Forward playback continues from the last requested tick instead of the checkpoint
+  let cursor = { tick: 0, state: checkpoints[0] };
+  const stateAt = (tick: number): SimulationState => {
+    const target = Math.max(0, Math.min(ticks.length, tick));
+    const index = Math.floor(target / checkpointEvery);
+    let from = index * checkpointEvery;
+    let s = checkpoints[index];
+    if (cursor.tick <= target && cursor.tick >= from) {
+      from = cursor.tick;
+      s = cursor.state;
+    }
+    for (let t = from; t < target; t++) {
+      s = stepSimulation(s, unpackInput(ticks[t]), settings).state;
+    }
+    cursor = { tick: target, state: s };
+    return s;
+  };
+
+  const inputAt = (tick: number): SimulationInput =>
+    unpackInput(ticks[Math.max(0, Math.min(ticks.length - 1, tick))] ?? 0);
+
+  return { length: ticks.length, settings, stateAt, inputAt };
+};
+
+export type GhostRunner = ReturnType<typeof createGhostRunner>;
+
+// Re-simulates a recorded run in lockstep with a live one, one tick per call
+export const createGhostRunner = (replay: ReplayLog) => {
+  const settings = buildSimulationSettings(replay);
+  const ticks = expandInputs(replay.inputs);
+  const state = createSimulation(settings, replay.seed);
+  const pool = new ObjectPool();
+  const events: SimulationEvent[] = [];
+  let input: SimulationInput | null = null;
+
+  return {
+    step: () => {
+      if (state.tick >= ticks.length) {
+        input = null;
+        return;
+      }
+      input = unpackInput(ticks[state.tick]);
+      events.length = 0;
+      advanceSimulation(state, input, settings, pool, events);
+    },
+    // null once the recorded run has ended
+    getInput: () => input,
+    getScore: () => state.score
+  };
+};
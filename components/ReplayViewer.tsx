@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ReplayLog, PlayerAvatar } from '../types';
+import { FIXED_STEP_MS, WORLD_HEIGHT } from './GameSimulation';
+import { THEME_DATA, RULE_SETS } from './GameConfig';
+import { renderWorld } from './GameRenderer';
+import { buildReplayTimeline } from './Replay';
+import { useCanvasViewport, applyViewport } from './Viewport';
+
+interface ReplayViewerProps {
+  replay: ReplayLog;
+  avatars: PlayerAvatar[];
+  onBack: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, avatars, onBack }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timeline = useMemo(() => buildReplayTimeline(replay), [replay]);
+  const avatar = avatars.find(a => a.id === replay.avatarId) || avatars[0];
+  const partnerAvatar = avatars.find(a => a.id === replay.partnerAvatarId);
+  const [tick, setTick] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const viewport = useCanvasViewport(canvasRef, timeline.settings.worldWidth);
+
+  // Playback clock: advances whole simulation ticks scaled by the selected speed
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId: number;
+    let lastTime = performance.now();
+    let accumulator = 0;
+
+    const loop = (time: number) => {
+      accumulator += Math.min(time - lastTime, 100) * speed;
+      lastTime = time;
+      const advance = Math.floor(accumulator / FIXED_STEP_MS);
+      accumulator -= advance * FIXED_STEP_MS;
+
+      if (advance > 0) {
+        setTick(t => Math.min(timeline.length, t + advance));
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, timeline]);
+
+  useEffect(() => {
+    if (tick >= timeline.length) setIsPlaying(false);
+  }, [tick, timeline]);
+
+  // Escape closes the viewer like the Close button
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onBack();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onBack]);
+
+  const sim = timeline.stateAt(tick);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    applyViewport(ctx, viewport);
+    renderWorld(ctx, sim, timeline.inputAt(tick - 1), timeline.settings, THEME_DATA[replay.theme], avatar, partnerAvatar);
+  }, [sim, tick, timeline, viewport, replay.theme, avatar, partnerAvatar]);
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && tick >= timeline.length) setTick(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const formatTime = (ticks: number) => {
+    const sec = (ticks * FIXED_STEP_MS) / 1000;
+    const m = Math.floor(sec / 60);
+    const s = Math.floor(sec % 60);
+    return `${m}:${s < 10 ? '0' : ''}${s}`;
+  };
+
+  return (
+    <div className="w-full max-w-5xl p-8 bg-zinc-900/80 backdrop-blur-3xl rounded-[3rem] border border-white/10 shadow-2xl animate-in fade-in zoom-in duration-500 space-y-6">
+      <div className="flex justify-between items-end">
+        <div className="space-y-2">
+          <h2 className="text-5xl font-black italic tracking-tighter text-white">FLIGHT RECORDER</h2>
+          <p className="text-zinc-500 text-xs font-black uppercase tracking-widest">
+            {avatar.emoji} {replay.pilotName}{partnerAvatar && ` & ${partnerAvatar.emoji} ${replay.partnerName}`} • {replay.theme.replace('_', ' ')} • {replay.customDifficulty ? `Custom • ${replay.customDifficulty.name}` : replay.difficulty} • {RULE_SETS[replay.ruleSet].label} • Seed #{replay.seed.toString(16).toUpperCase()}
+          </p>
+        </div>
+        <button 
+          onClick={onBack}
+          className="px-6 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white hover:bg-white/10 transition-all"
+        >
+          Close [ESC]
+        </button>
+      </div>
+
+      <div
+        className="relative bg-black rounded-[2rem] border border-white/5 overflow-hidden max-h-[55vh] mx-auto"
+        style={{ aspectRatio: `${timeline.settings.worldWidth} / ${WORLD_HEIGHT}` }}
+      >
+        <canvas ref={canvasRef} className="w-full h-full" />
+        <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-4 py-2 rounded-2xl border border-white/10 pointer-events-none">
+          <div className="text-zinc-500 text-[9px] font-black tracking-widest uppercase">Sync</div>
+          <div className="text-3xl font-black text-white italic tracking-tighter">{Math.floor(sim.score)}</div>
+        </div>
+        <div className="absolute top-4 right-4 bg-black/60 backdrop-blur-md px-4 py-2 rounded-2xl border border-white/10 pointer-events-none text-right">
+          <div className="text-zinc-500 text-[9px] font-black tracking-widest uppercase">Lives</div>
+          <div className="text-3xl font-black text-white italic tracking-tighter">{Math.max(0, Math.floor(sim.lives))}</div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleTogglePlay}
+          className="w-28 py-3 bg-white text-zinc-950 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <span className="text-xs font-black text-zinc-400 font-mono w-12 text-right">{formatTime(tick)}</span>
+        <input
+          type="range"
+          min={0}
+          max={timeline.length}
+          value={tick}
+          onChange={(e) => setTick(Number(e.target.value))}
+          className="flex-1 accent-green-500"
+        />
+        <span className="text-xs font-black text-zinc-600 font-mono w-12">{formatTime(timeline.length)}</span>
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-2 py-2 rounded-lg border text-[9px] font-black transition-all ${speed === s ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -1,6 +1,9 @@
 
 import React from 'react';
-import { InputMode, GameTheme, PlayerAvatar, GameDifficulty } from '../types';
+import { InputMode, GameTheme, PlayerAvatar, GameDifficulty, DailyChallenge, RuleSet, LevelScript, EffectsIntensity, CustomDifficulty, PlayMode, GestureType, TrackingConfig, FrameSourceSpec } from '../types';
+import DifficultyEditor from './DifficultyEditor';
+import GestureControls from './GestureControls';
+import { RULE_SETS, HAND_LOST_TIMEOUTS, INPUT_MODES } from './GameConfig';
 
 interface StartMenuProps {
   inputMode: InputMode;
@@ -8,18 +11,55 @@ interface StartMenuProps {
   theme: GameTheme;
   setTheme: (t: GameTheme) => void;
   difficulty: GameDifficulty;
+  customDifficulty: CustomDifficulty;
+  setCustomDifficulty: (value: CustomDifficulty) => void;
+  difficultyPresets: CustomDifficulty[];
+  onSavePreset: (preset: CustomDifficulty) => void;
+  onDeletePreset: (name: string) => void;
+  adaptive: boolean;
+  setAdaptive: (adaptive: boolean) => void;
   setDifficulty: (d: GameDifficulty) => void;
+  ruleSet: RuleSet;
+  setRuleSet: (r: RuleSet) => void;
+  effectsIntensity: EffectsIntensity;
+  setEffectsIntensity: (i: EffectsIntensity) => void;
+  handLostTimeoutMs: number;
+  setHandLostTimeoutMs: (ms: number) => void;
+  isCalibrated: boolean;
+  onCalibrate: () => void;
+  levels: LevelScript[];
+  levelId: string | null;
+  setLevelId: (id: string | null) => void;
   avatars: PlayerAvatar[];
   selectedAvatar: PlayerAvatar;
   setSelectedAvatar: (a: PlayerAvatar) => void;
   pilotName: string;
   setPilotName: (n: string) => void;
+  playMode: PlayMode;
+  setPlayMode: (m: PlayMode) => void;
+  rivalAvatar: PlayerAvatar;
+  setRivalAvatar: (a: PlayerAvatar) => void;
+  rivalName: string;
+  setRivalName: (n: string) => void;
+  dailyChallenge: DailyChallenge;
+  trackingConfig: TrackingConfig;
+  frameSource: FrameSourceSpec; // VISION only: the menu watches the lens so a swipe can launch
   onStart: () => void;
+  onStartDaily: () => void;
   onShowLeaderboard: () => void;
+  onOpenEditor: () => void;
+  onOpenBenchmark: () => void;
+  onOpenDevTools: () => void;
 }
 
+const SESSION_LABELS: Record<PlayMode, string> = {
+  [PlayMode.SOLO]: 'Solo',
+  [PlayMode.VERSUS]: '⚔️ Versus',
+  [PlayMode.COOP]: '🤝 Co-op'
+};
+
 const StartMenu: React.FC<StartMenuProps> = ({ 
-  inputMode, setInputMode, theme, setTheme, difficulty, setDifficulty, avatars, selectedAvatar, setSelectedAvatar, pilotName, setPilotName, onStart, onShowLeaderboard 
+  inputMode, setInputMode, theme, setTheme, difficulty, setDifficulty, customDifficulty, setCustomDifficulty, difficultyPresets, onSavePreset, onDeletePreset, adaptive, setAdaptive, ruleSet, setRuleSet, effectsIntensity, setEffectsIntensity, handLostTimeoutMs, setHandLostTimeoutMs, isCalibrated, onCalibrate, levels, levelId, setLevelId, avatars, selectedAvatar, setSelectedAvatar, pilotName, setPilotName, playMode, setPlayMode, rivalAvatar, setRivalAvatar, rivalName, setRivalName, dailyChallenge, trackingConfig, frameSource, onStart, onStartDaily, onShowLeaderboard, onOpenEditor, onOpenBenchmark, onOpenDevTools 
 }) => {
   const themes = [
     { id: GameTheme.COSMIC, label: 'Cosmic Orbit', icon: '🌌' },
@@ -29,6 +69,8 @@ const StartMenu: React.FC<StartMenuProps> = ({
     { id: GameTheme.MIND_LAB, label: 'Mind Lab', icon: '🧠' },
     { id: GameTheme.RETRO, label: 'Retro Arcade', icon: '🎮' },
   ];
+  const dailyTheme = themes.find(t => t.id === dailyChallenge.theme);
+  const isVersus = playMode === PlayMode.VERSUS;
 
   return (
     <div className="flex flex-col items-center justify-center gap-6 text-center p-6 animate-in fade-in slide-in-from-bottom-8 duration-700 w-full max-w-6xl">
@@ -46,6 +88,24 @@ const StartMenu: React.FC<StartMenuProps> = ({
           >
             [ Records ]
           </button>
+          <button 
+            onClick={onOpenEditor}
+            className="text-[10px] font-black text-green-400 hover:text-white transition-colors uppercase tracking-widest border border-green-400/30 px-2 py-0.5 rounded"
+          >
+            [ Forge ]
+          </button>
+          <button 
+            onClick={onOpenBenchmark}
+            className="text-[10px] font-black text-green-400 hover:text-white transition-colors uppercase tracking-widest border border-green-400/30 px-2 py-0.5 rounded"
+          >
+            [ Bench ]
+          </button>
+          <button 
+            onClick={onOpenDevTools}
+            className="text-[10px] font-black text-green-400 hover:text-white transition-colors uppercase tracking-widest border border-green-400/30 px-2 py-0.5 rounded"
+          >
+            [ Dev ]
+          </button>
         </div>
       </div>
 
@@ -61,6 +121,39 @@ const StartMenu: React.FC<StartMenuProps> = ({
         />
       </div>
 
+      {/* Session Type */}
+      <div className="w-full max-w-md bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-2xl p-4 flex items-center gap-4">
+        <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest text-left px-2 whitespace-nowrap">Session Type</h3>
+        <div className="flex-1 flex gap-2">
+          {Object.values(PlayMode).map(m => (
+            <button
+              key={m}
+              onClick={() => setPlayMode(m)}
+              className={`flex-1 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest ${playMode === m ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+            >
+              {SESSION_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Daily Challenge */}
+      <button
+        onClick={onStartDaily}
+        className="group w-full max-w-md bg-green-500/10 hover:bg-green-500/20 border border-green-500/30 rounded-2xl p-4 flex items-center justify-between gap-4 transition-all"
+      >
+        <div className="flex items-center gap-3">
+          <span className="text-3xl">{dailyTheme?.icon}</span>
+          <div className="text-left">
+            <div className="text-green-400 text-xs font-black uppercase tracking-widest">Daily Challenge</div>
+            <div className="text-zinc-500 text-[9px] font-black uppercase tracking-widest">
+              {dailyChallenge.dateKey} • {dailyTheme?.label} • Seed #{dailyChallenge.seed.toString(16).toUpperCase()}
+            </div>
+          </div>
+        </div>
+        <span className="text-[10px] font-black text-white uppercase tracking-widest group-hover:text-green-400 transition-colors">Engage ›</span>
+      </button>
+
       {/* Main Configuration Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 w-full">
         
@@ -92,7 +185,8 @@ const StartMenu: React.FC<StartMenuProps> = ({
             {[
               { id: GameDifficulty.EASY, label: 'Stable', desc: '5 Lives • Low G', color: 'text-green-400' },
               { id: GameDifficulty.MEDIUM, label: 'Nominal', desc: '3 Lives • Earth G', color: 'text-yellow-400' },
-              { id: GameDifficulty.HARD, label: 'Critical', desc: '1 Life • High G', color: 'text-red-500' }
+              { id: GameDifficulty.HARD, label: 'Critical', desc: '1 Life • High G', color: 'text-red-500' },
+              { id: GameDifficulty.CUSTOM, label: 'Custom', desc: `${customDifficulty.name} • Separate records`, color: 'text-purple-400' }
             ].map(d => (
               <button 
                 key={d.id}
@@ -128,15 +222,166 @@ const StartMenu: React.FC<StartMenuProps> = ({
         </div>
       </div>
 
+      {/* Player 2 (versus and co-op) */}
+      {playMode !== PlayMode.SOLO && (
+        <div className={`w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border rounded-3xl p-4 flex flex-col gap-3 ${isVersus ? 'border-red-500/20' : 'border-blue-500/20'}`}>
+          <div className="flex items-center justify-between px-2">
+            <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest">{isVersus ? 'Rival Unit' : 'Partner Unit'}</h3>
+            <span className="text-zinc-600 text-[9px] font-black uppercase tracking-widest">
+              {INPUT_MODES[inputMode].versus}
+            </span>
+          </div>
+          <input
+            type="text"
+            value={rivalName}
+            onChange={(e) => setRivalName(e.target.value.toUpperCase().slice(0, 12))}
+            placeholder={isVersus ? 'RIVAL CALLSIGN...' : 'PARTNER CALLSIGN...'}
+            className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white font-black tracking-widest focus:outline-none focus:border-white/30 transition-all text-center"
+          />
+          <div className="grid grid-cols-4 gap-2">
+            {avatars.map(avatar => (
+              <button
+                key={avatar.id}
+                onClick={() => setRivalAvatar(avatar)}
+                className={`p-2 rounded-2xl border-2 transition-all ${rivalAvatar.id === avatar.id ? 'bg-white/10 border-white' : 'bg-white/5 border-transparent hover:bg-white/10'}`}
+              >
+                <div className="text-2xl">{avatar.emoji}</div>
+                <div className={`text-[9px] font-black uppercase tracking-widest ${rivalAvatar.id === avatar.id ? 'text-white' : 'text-zinc-500'}`}>
+                  {avatar.name}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {difficulty === GameDifficulty.CUSTOM && (
+        <DifficultyEditor
+          value={customDifficulty}
+          onChange={setCustomDifficulty}
+          presets={difficultyPresets}
+          onSavePreset={onSavePreset}
+          onDeletePreset={onDeletePreset}
+        />
+      )}
+
+      {/* Mission Selection (versus matches are always endless) */}
+      {!isVersus && (
+        <div className="w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-4 flex flex-col gap-2">
+          <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest text-left px-2">Mission Profile</h3>
+          <div className="grid grid-cols-5 gap-2">
+            {[{ id: null, name: 'Endless', description: 'Procedural drops, rising gravity' }, ...levels].map((l, i) => (
+              <button
+                key={l.id ?? 'endless'}
+                onClick={() => setLevelId(l.id)}
+                title={l.description}
+                className={`p-3 rounded-2xl border transition-all text-left ${levelId === l.id ? 'bg-white border-white' : 'bg-white/5 border-white/10'}`}
+              >
+                <div className={`text-[9px] font-black uppercase tracking-widest ${levelId === l.id ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                  {l.id === null ? '∞' : `Sector ${i}`}
+                </div>
+                <div className={`text-[10px] font-black uppercase tracking-tight leading-tight ${levelId === l.id ? 'text-zinc-950' : 'text-white'}`}>
+                  {l.name}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Rule Set Selection */}
+      <div className="w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-4 flex flex-col gap-2">
+        <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest text-left px-2">Failure Protocol</h3>
+        <div className="flex gap-2">
+          {Object.values(RuleSet).map(r => (
+            <button
+              key={r}
+              onClick={() => setRuleSet(r)}
+              className={`flex-1 p-3 rounded-2xl border transition-all text-left ${ruleSet === r ? 'bg-white border-white' : 'bg-white/5 border-white/10'}`}
+            >
+              <div className={`text-[10px] font-black uppercase tracking-widest ${ruleSet === r ? 'text-zinc-950' : 'text-white'}`}>
+                {RULE_SETS[r].label}
+              </div>
+              <div className={`text-[9px] font-medium ${ruleSet === r ? 'text-zinc-600' : 'text-zinc-500'}`}>
+                {RULE_SETS[r].desc}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Adaptive Difficulty (solo endless runs only) */}
+      {!isVersus && (
+        <div className="w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-4 flex items-center gap-4">
+          <div className="text-left px-2">
+            <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest whitespace-nowrap">Adaptive Assist</h3>
+            <p className="text-zinc-600 text-[9px] font-medium">Paces endless runs to your recent play</p>
+          </div>
+          <div className="flex-1 flex gap-2">
+            {[false, true].map(on => (
+              <button
+                key={String(on)}
+                onClick={() => setAdaptive(on)}
+                className={`flex-1 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest ${adaptive === on ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+              >
+                {on ? 'On' : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Effects Intensity */}
+      <div className="w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-4 flex items-center gap-4">
+        <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest text-left px-2 whitespace-nowrap">Visual Feedback</h3>
+        <div className="flex-1 flex gap-2">
+          {Object.values(EffectsIntensity).map(i => (
+            <button
+              key={i}
+              onClick={() => setEffectsIntensity(i)}
+              className={`flex-1 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest ${effectsIntensity === i ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+            >
+              {i}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Hand mode only: auto-pause when tracking drops out, and camera calibration */}
+      {inputMode === InputMode.VISION && (
+        <div className="w-full max-w-xl bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-4 flex items-center gap-4">
+          <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-widest text-left px-2 whitespace-nowrap">Signal Loss Pause</h3>
+          <div className="flex-1 flex gap-2">
+            {HAND_LOST_TIMEOUTS.map(ms => (
+              <button
+                key={ms}
+                onClick={() => setHandLostTimeoutMs(ms)}
+                className={`flex-1 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest ${handLostTimeoutMs === ms ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+              >
+                {ms === 0 ? 'Off' : `${ms / 1000}s`}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onCalibrate}
+            className={`px-4 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${isCalibrated ? 'bg-white/5 border-white/10 text-zinc-500 hover:text-white' : 'bg-green-500/10 border-green-500/30 text-green-400'}`}
+          >
+            🎯 {isCalibrated ? 'Recalibrate' : 'Calibrate'}
+          </button>
+        </div>
+      )}
+
       <div className="flex items-center gap-4 w-full max-w-xl">
-        <div className="flex-1 bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-4 flex gap-2">
-          {[InputMode.CURSOR, InputMode.VISION].map(mode => (
+        <div className="flex-[2] bg-zinc-900/40 backdrop-blur-xl border border-white/5 rounded-3xl p-3 grid grid-cols-5 gap-1.5">
+          {Object.values(InputMode).map(mode => (
             <button 
               key={mode}
               onClick={() => setInputMode(mode)}
-              className={`flex-1 py-4 rounded-2xl border transition-all text-xs font-black uppercase tracking-widest ${inputMode === mode ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
+              title={INPUT_MODES[mode].desc}
+              className={`py-2.5 rounded-2xl border transition-all flex flex-col items-center gap-1 ${inputMode === mode ? 'bg-white text-zinc-900 border-white' : 'bg-white/5 border-white/10 text-zinc-500'}`}
             >
-              {mode === InputMode.CURSOR ? '🖱️ Cursor' : '✋ Hand'}
+              <span className="text-lg">{INPUT_MODES[mode].icon}</span>
+              <span className="text-[9px] font-black uppercase tracking-widest">{INPUT_MODES[mode].label}</span>
             </button>
           ))}
         </div>
@@ -149,6 +394,17 @@ const StartMenu: React.FC<StartMenuProps> = ({
           <div className="absolute inset-0 bg-green-500/10 opacity-0 group-hover:opacity-100 transition-opacity" />
         </button>
       </div>
+
+      {inputMode === InputMode.VISION && (
+        <GestureControls
+          actions={[
+            { gesture: GestureType.SWIPE_RIGHT, label: 'Initiate', run: onStart },
+            { gesture: GestureType.SWIPE_LEFT, label: 'Daily Challenge', run: onStartDaily }
+          ]}
+          trackingConfig={trackingConfig}
+          frameSource={frameSource}
+        />
+      )}
     </div>
   );
 };
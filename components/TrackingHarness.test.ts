@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { SegmentationMode, SyntheticPath } from '../types';
+import { DEFAULT_TRACKING } from './GameConfig';
+import { SYNTHETIC_PATHS } from './FrameSources';
+import { ANALYSIS_WIDTH, ANALYSIS_HEIGHT } from './HandAnalyzer';
+import { Frame } from './HandSegmentation';
+import { TrackingSample, RecordedClipError, scoreTracking, scoreRecordedClip, parseRecordedClip, packFrame, recordedClipSamples } from './TrackingHarness';
+
+const SKIN = [235, 180, 150];
+const WALL = [[70, 80, 95], [95, 95, 105]]; // Two-tone panelling, so the background isn't flat
+const NOISE = 8;       // Per-channel sensor noise, ±
+const FLICKER = 0.04;  // Frame-to-frame exposure wobble, ±
+
+// Deterministic noise so every run scores the same clip
+const createRandom = (seed: number) => () => {
+  seed = (Math.imul(seed, 1664525) + 1013904223) | 0;
+  return (seed >>> 0) / 4294967296;
+};
+
+// True inside a hand seen palm-on: an ellipse for the palm with four fingers above it
+const inHand = (dx: number, dy: number) => {
+  if ((dx / 6) ** 2 + (dy / 8) ** 2 <= 1) return true;
+  if (dy >= -7 || dy < -16) return false;
+  const finger = Math.floor((dx + 6) / 3);
+  return finger >= 0 && finger < 4 && (dx + 6) % 3 < 2;
+};
+
+// A noisy camera-like clip of a hand following one of the synthetic paths, already mirrored to player view
+function* fixtureClip(path: SyntheticPath, durationMs: number, seed: number): Generator<TrackingSample> {
+  const random = createRandom(seed);
+  const frame: Frame = { data: new Uint8ClampedArray(ANALYSIS_WIDTH * ANALYSIS_HEIGHT * 4), width: ANALYSIS_WIDTH, height: ANALYSIS_HEIGHT };
+  for (let t = 0; t < durationMs; t += 1000 / 60) {
+    const { x, visible } = SYNTHETIC_PATHS[path].position(t);
+    const cx = x * ANALYSIS_WIDTH;
+    const cy = ANALYSIS_HEIGHT * 0.6;
+    const exposure = 1 + (random() * 2 - 1) * FLICKER;
+    for (let py = 0, i = 0; py < ANALYSIS_HEIGHT; py++) {
+      for (let px = 0; px < ANALYSIS_WIDTH; px++, i += 4) {
+        const color = visible && inHand(px + 0.5 - cx, py + 0.5 - cy) ? SKIN : WALL[Math.floor(px / 10) % 2];
+        for (let c = 0; c < 3; c++) frame.data[i + c] = color[c] * exposure + (random() * 2 - 1) * NOISE;
+        frame.data[i + 3] = 255;
+      }
+    }
+    yield { frame, expectedX: visible ? x : null };
+  }
+}
+
+const score = (segmentation: SegmentationMode, path: SyntheticPath) =>
+  scoreTracking(fixtureClip(path, 6000, 1), { ...DEFAULT_TRACKING, segmentation, threshold: 170 });
+
+// Motion-based modes report nothing while the background primes, and can't see a hand that hasn't
+// moved since the clip started: STEPS holds still for its whole first quarter
+const MIN_DETECTION: Record<SegmentationMode, (path: SyntheticPath) => number> = {
+  [SegmentationMode.BRIGHTNESS]: () => 0.98,
+  [SegmentationMode.SKIN]: () => 0.98,
+  [SegmentationMode.MOTION]: path => (path === SyntheticPath.STEPS ? 0.74 : 0.9),
+  [SegmentationMode.HYBRID]: path => (path === SyntheticPath.STEPS ? 0.74 : 0.9)
+};
+const MAX_MEAN_ERROR = 0.02;
+
+describe('scoreTracking on fixture clips', () => {
+  for (const mode of Object.values(SegmentationMode)) {
+    it(`tracks every path with ${mode} segmentation`, () => {
+      for (const path of Object.values(SyntheticPath)) {
+        const result = score(mode, path);
+        expect(result.frames, path).toBe(360);
+        expect(result.detectionRate, path).toBeGreaterThanOrEqual(MIN_DETECTION[mode](path));
+        expect(result.meanError, path).toBeLessThan(MAX_MEAN_ERROR);
+      }
+    });
+  }
+
+  it('counts a hand found where none is expected as a detection failure', () => {
+    // Same footage, but labelled as if no hand were ever in view
+    function* unlabelled() {
+      for (const { frame } of fixtureClip(SyntheticPath.DROPOUT, 6000, 2)) yield { frame, expectedX: null };
+    }
+    const result = scoreTracking(unlabelled(), { ...DEFAULT_TRACKING, segmentation: SegmentationMode.SKIN });
+    // The hand is on screen for 5 seconds in every 6
+    expect(result.detectionRate).toBeCloseTo(1 / 6, 1);
+    expect(result.meanError).toBe(0);
+  });
+});
+
+describe('recorded clips', () => {
+  const loadFixture = (name: string) =>
+    parseRecordedClip(readFileSync(new URL(`../fixtures/tracking/${name}.json`, import.meta.url), 'utf8'));
+
+  // Motion modes spend the first PRIME_FRAMES frames learning the room, longer than this 10fps clip
+  // holds anything worth scoring, so only the per-frame strategies are held to it
+  it('tracks the checked-in sweep fixture', () => {
+    const clip = loadFixture('sweep-dropout');
+    for (const segmentation of [SegmentationMode.BRIGHTNESS, SegmentationMode.SKIN]) {
+      const result = scoreRecordedClip(clip, { ...DEFAULT_TRACKING, segmentation, threshold: 170 });
+      expect(result.frames, segmentation).toBe(clip.labels.length);
+      expect(result.detectionRate, segmentation).toBeGreaterThanOrEqual(0.95);
+      expect(result.meanError, segmentation).toBeLessThan(0.04);
+    }
+  });
+
+  it('unpacks exactly the frames that were packed', () => {
+    const [first] = fixtureClip(SyntheticPath.SWEEP, 1, 3);
+    const packed = { name: 'round trip', fps: 60, width: ANALYSIS_WIDTH, height: ANALYSIS_HEIGHT, frames: [packFrame(first.frame)], labels: [first.expectedX] };
+    const [unpacked] = recordedClipSamples(parseRecordedClip(JSON.stringify(packed)));
+    expect(unpacked.frame.data).toEqual(first.frame.data);
+    expect(unpacked.expectedX).toBe(first.expectedX);
+  });
+
+  it('rejects a clip whose labels and frames disagree', () => {
+    const clip = { ...loadFixture('sweep-dropout'), labels: [0.5, 2] };
+    const issuesOf = (data: unknown) => {
+      try {
+        parseRecordedClip(JSON.stringify(data));
+      } catch (err) {
+        if (err instanceof RecordedClipError) return err.issues;
+        throw err;
+      }
+      return [];
+    };
+    expect(issuesOf(clip)).toEqual([
+      'labels[1]: must be a number from 0 to 1, or null',
+      `frames: must hold one frame per label (2), found ${clip.frames.length}`
+    ]);
+  });
+});
@@ -0,0 +1,248 @@
+import { FrameSourceKind, FrameSourceSpec, SyntheticPath, TrackingConfig } from '../types';
+import { Frame } from './HandSegmentation';
+import { createHandAnalyzer, ANALYSIS_WIDTH, ANALYSIS_HEIGHT } from './HandAnalyzer';
+import { renderSyntheticFrame } from './FrameSources';
+
+// One analysed frame from a recorded or generated clip, already mirrored and at analysis resolution.
+// expectedX is the true hand position across the lens, or null where no hand should be found.
+export interface TrackingSample {
+  frame: Frame;
+  expectedX: number | null;
+}
+
+export interface TrackingScore {
+  frames: number;
+  detectionRate: number; // Share of frames where presence matched what was expected
+  meanError: number;     // Paddle-space error over frames with a hand, after reach mapping
+  maxError: number;
+}
+
+// Runs frames through a fresh analyser with no browser involved, for regression checks on fixed clips
+export const scoreTracking = (samples: Iterable<TrackingSample>, config: TrackingConfig): TrackingScore => {
+  const analyzer = createHandAnalyzer(ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+  const span = config.reachRight - config.reachLeft;
+  let frames = 0;
+  let matched = 0;
+  let measured = 0;
+  let totalError = 0;
+  let maxError = 0;
+
+  for (const { frame, expectedX } of samples) {
+    const [hand] = analyzer.analyze(frame, config, 1, false).hands;
+    frames++;
+    if (hand.detected === (expectedX !== null)) matched++;
+    if (expectedX === null || !hand.detected) continue;
+    const expected = Math.max(0, Math.min(1, (expectedX - config.reachLeft) / span));
+    const error = Math.abs(hand.x - expected);
+    measured++;
+    totalError += error;
+    maxError = Math.max(maxError, error);
+  }
+
+  return { frames, detectionRate: matched / Math.max(1, frames), meanError: totalError / Math.max(1, measured), maxError };
+};
+
+// Generates a synthetic clip at 60fps, reusing one frame buffer
+function* syntheticClip(path: SyntheticPath, durationMs: number): Generator<TrackingSample> {
+  const frame: Frame = { data: new Uint8ClampedArray(ANALYSIS_WIDTH * ANALYSIS_HEIGHT * 4), width: ANALYSIS_WIDTH, height: ANALYSIS_HEIGHT };
+  for (let t = 0; t < durationMs; t += 1000 / 60) {
+    yield { frame, expectedX: renderSyntheticFrame(path, t, frame, true) };
+  }
+}
+
+export const scoreSyntheticPath = (path: SyntheticPath, config: TrackingConfig, durationMs = 6000) =>
+  scoreTracking(syntheticClip(path, durationMs), config);
+
+// A recorded clip as checked in for regression runs. Frames are already mirrored to player view at
+// analysis resolution, each packed as base64 RGB; labels hold the true hand x for every frame, or null
+// where no hand is in view.
+export interface RecordedClip {
+  name: string;
+  fps: number;
+  width: number;
+  height: number;
+  frames: string[];
+  labels: (number | null)[];
+}
+
+// Ground truth for a video or image sequence picked in the dev deck: one label per image, or one per
+// 1/fps seconds of video
+export interface ClipLabels {
+  fps?: number;
+  labels: (number | null)[];
+}
+
+export class RecordedClipError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid recorded clip:\n${issues.join('\n')}`);
+    this.name = 'RecordedClipError';
+  }
+}
+
+const FRAME_BYTES = ANALYSIS_WIDTH * ANALYSIS_HEIGHT * 3;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLabel = (value: unknown) =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1);
+
+const validateLabels = (data: Record<string, unknown>, issues: string[]) => {
+  if (data.fps !== undefined && (typeof data.fps !== 'number' || !(data.fps > 0))) issues.push('fps: must be a number > 0');
+  if (!Array.isArray(data.labels) || data.labels.length === 0) {
+    issues.push('labels: must be a non-empty array');
+    return;
+  }
+  data.labels.forEach((label: unknown, i: number) => {
+    if (!isLabel(label)) issues.push(`labels[${i}]: must be a number from 0 to 1, or null`);
+  });
+};
+
+// Returns one readable message per problem, each prefixed with the JSON path it refers to
+export const validateClipLabels = (data: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(data)) return ['labels: must be an object'];
+  validateLabels(data, issues);
+  return issues;
+};
+
+export const validateRecordedClip = (data: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(data)) return ['clip: must be an object'];
+  if (typeof data.name !== 'string' || data.name.trim() === '') issues.push('name: must be a non-empty string');
+  if (data.fps === undefined) issues.push('fps: must be a number > 0');
+  if (data.width !== ANALYSIS_WIDTH || data.height !== ANALYSIS_HEIGHT) {
+    issues.push(`width, height: must be the analysis resolution, ${ANALYSIS_WIDTH}x${ANALYSIS_HEIGHT}`);
+  }
+  validateLabels(data, issues);
+  if (!Array.isArray(data.frames)) {
+    issues.push('frames: must be an array');
+    return issues;
+  }
+  if (Array.isArray(data.labels) && data.frames.length !== data.labels.length) {
+    issues.push(`frames: must hold one frame per label (${data.labels.length}), found ${data.frames.length}`);
+  }
+  data.frames.forEach((frame: unknown, i: number) => {
+    // A frame's byte count divides by three, so its base64 has no padding and a fixed length
+    if (typeof frame !== 'string' || frame.length !== (FRAME_BYTES / 3) * 4) {
+      issues.push(`frames[${i}]: must be ${FRAME_BYTES} bytes of base64 RGB`);
+    }
+  });
+  return issues;
+};
+
+const parseJson = (json: string) => {
+  try {
+    return JSON.parse(json) as unknown;
+  } catch (err) {
+    throw new RecordedClipError([`json: ${(err as Error).message}`]);
+  }
+};
+
+export const parseClipLabels = (json: string): ClipLabels => {
+  const data = parseJson(json);
+  const issues = validateClipLabels(data);
+  if (issues.length > 0) throw new RecordedClipError(issues);
+  return data as ClipLabels;
+};
+
+export const parseRecordedClip = (json: string): RecordedClip => {
+  const data = parseJson(json);
+  const issues = validateRecordedClip(data);
+  if (issues.length > 0) throw new RecordedClipError(issues);
+  return data as RecordedClip;
+};
+
+// Packs an analysis frame's RGB channels, dropping alpha
+export const packFrame = (frame: Frame) => {
+  let binary = '';
+  for (let i = 0; i < frame.data.length; i += 4) {
+    binary += String.fromCharCode(frame.data[i], frame.data[i + 1], frame.data[i + 2]);
+  }
+  return btoa(binary);
+};
+
+// Unpacks a recorded clip frame by frame, reusing one frame buffer
+export function* recordedClipSamples(clip: RecordedClip): Generator<TrackingSample> {
+  const frame: Frame = { data: new Uint8ClampedArray(ANALYSIS_WIDTH * ANALYSIS_HEIGHT * 4), width: ANALYSIS_WIDTH, height: ANALYSIS_HEIGHT };
+  for (let f = 0; f < clip.frames.length; f++) {
+    const binary = atob(clip.frames[f]);
+    for (let i = 0, j = 0; j < binary.length; i += 4, j += 3) {
+      frame.data[i] = binary.charCodeAt(j);
+      frame.data[i + 1] = binary.charCodeAt(j + 1);
+      frame.data[i + 2] = binary.charCodeAt(j + 2);
+      frame.data[i + 3] = 255;
+    }
+    yield { frame, expectedX: clip.labels[f] };
+  }
+}
+
+export const scoreRecordedClip = (clip: RecordedClip, config: TrackingConfig) =>
+  scoreTracking(recordedClipSamples(clip), config);
+
+const loadVideo = async (file: Blob) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.src = URL.createObjectURL(file);
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new RecordedClipError(['video: could not be decoded']));
+  });
+  return video;
+};
+
+const seekVideo = (video: HTMLVideoElement, seconds: number) => new Promise<void>(resolve => {
+  video.addEventListener('seeked', () => resolve(), { once: true });
+  video.currentTime = seconds;
+});
+
+// Browser only: decodes a video file or image sequence into a RecordedClip, mirrored and scaled
+// the way VisionTracker feeds the analyser, so labelled footage can be scored or saved as a fixture
+export const captureRecordedClip = async (source: FrameSourceSpec, labels: ClipLabels, name: string): Promise<RecordedClip> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ANALYSIS_WIDTH;
+  canvas.height = ANALYSIS_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new RecordedClipError(['canvas: 2D context unavailable']);
+  const capture = (image: CanvasImageSource) => {
+    ctx.save();
+    ctx.scale(-1, 1);
+    ctx.translate(-ANALYSIS_WIDTH, 0);
+    ctx.drawImage(image, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    ctx.restore();
+    return packFrame(ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT));
+  };
+
+  const frames: string[] = [];
+  let fps: number;
+  if (source.kind === FrameSourceKind.IMAGE_SEQUENCE) {
+    if (source.files.length !== labels.labels.length) {
+      throw new RecordedClipError([`labels: must hold one label per image (${source.files.length}), found ${labels.labels.length}`]);
+    }
+    fps = source.fps;
+    for (const file of source.files) {
+      const url = URL.createObjectURL(file);
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      frames.push(capture(image));
+      URL.revokeObjectURL(url);
+    }
+  } else if (source.kind === FrameSourceKind.VIDEO_FILE) {
+    if (!labels.fps) throw new RecordedClipError(['fps: is required to line labels up with a video']);
+    fps = labels.fps;
+    const video = await loadVideo(source.file);
+    try {
+      for (let f = 0; f < labels.labels.length; f++) {
+        await seekVideo(video, f / fps);
+        frames.push(capture(video));
+      }
+    } finally {
+      URL.revokeObjectURL(video.src);
+    }
+  } else {
+    throw new RecordedClipError(['source: only video files and image sequences can be captured']);
+  }
+
+  return { name, fps, width: ANALYSIS_WIDTH, height: ANALYSIS_HEIGHT, frames, labels: labels.labels };
+};
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import { InputMode, GameTheme, GameDifficulty, CustomDifficulty, RuleSet, EffectsIntensity, Pilot, VersusResult, ActiveEffect, PowerUpType, GameState, TrackingConfig, FrameSourceSpec } from '../types';
+import VisionTracker from './VisionTracker';
+import HUD from './HUD';
+import { audioEngine } from './AudioEngine';
+import {
+  SimulationEvent, SimulationSettings, SimulationState, createSimulation, advanceSimulation, fitWorldWidth, DEFAULT_WORLD_WIDTH, WORLD_HEIGHT, POWERUP_DURATIONS, BOOST_CATCHES
+} from './GameSimulation';
+import { THEME_DATA, INPUT_MODES, buildSimulationSettings } from './GameConfig';
+import { renderWorld } from './GameRenderer';
+import { ObjectPool } from './ObjectPool';
+import { useCanvasViewport, applyViewport } from './Viewport';
+import { ParticleSystem } from './ParticleSystem';
+import { PauseOverlay } from './PauseControl';
+import { playEventFeedback } from './EventFeedback';
+import { createPaddleInputs, getBoostHint } from './InputProviders';
+import { usePlayLoop } from './PlayLoop';
+
+interface VersusWorldProps {
+  onFinish: (result: VersusResult) => void;
+  onExit: () => void;
+  inputMode: InputMode;
+  theme: GameTheme;
+  gameDifficulty: GameDifficulty;
+  customDifficulty?: CustomDifficulty;
+  ruleSet: RuleSet;
+  seed: number;
+  pilots: [Pilot, Pilot];
+  effectsIntensity: EffectsIntensity;
+  handLostTimeoutMs: number;
+  trackingConfig: TrackingConfig;
+  frameSource: FrameSourceSpec;
+}
+
+interface VersusSide {
+  sim: SimulationState;
+  pool: ObjectPool;
+}
+
+type SideUi = Pick<GameState, 'score' | 'lives' | 'combo' | 'misses' | 'boost' | 'difficulty' | 'currentTime' | 'activeEffects' | 'boss'>;
+
+const createSide = (settings: SimulationSettings, seed: number): VersusSide => ({
+  sim: createSimulation(settings, seed),
+  pool: new ObjectPool()
+});
+
+const readSideUi = (sim: SimulationState): SideUi => ({
+  score: sim.score,
+  lives: sim.lives,
+  combo: sim.combo,
+  misses: sim.misses,
+  boost: sim.boostCharge / BOOST_CATCHES,
+  difficulty: sim.difficulty,
+  currentTime: sim.elapsedMs / 1000,
+  activeEffects: (Object.keys(sim.effects) as PowerUpType[]).map((type): ActiveEffect => ({
+    type,
+    remainingMs: sim.effects[type]!,
+    durationMs: POWERUP_DURATIONS[type]
+  })),
+  boss: sim.boss && { name: sim.boss.name, variant: sim.boss.variant, health: sim.boss.health, maxHealth: sim.boss.maxHealth }
+});
+
+// The last pilot standing wins; if both fall on the same tick the score decides
+const decideWinner = (sides: VersusSide[]): number | null => {
+  const [a, b] = sides.map(s => s.sim);
+  if (a.isOver && !b.isOver) return 1;
+  if (b.isOver && !a.isOver) return 0;
+  if (Math.floor(a.score) === Math.floor(b.score)) return null;
+  return a.score > b.score ? 0 : 1;
+};
+
+// Two independent runs of the same seed, side by side. Endless only, and never recorded.
+const VersusWorld: React.FC<VersusWorldProps> = ({ onFinish, onExit, inputMode, theme, gameDifficulty, customDifficulty, ruleSet, seed, pilots, effectsIntensity, handLostTimeoutMs, trackingConfig, frameSource }) => {
+  const canvasRefs = [useRef<HTMLCanvasElement>(null), useRef<HTMLCanvasElement>(null)];
+  const fieldRef = useRef<HTMLDivElement>(null);
+  const [worldWidth, setWorldWidth] = useState<number | null>(null);
+
+  // Both fields share one size, fixed for the whole match so neither pilot gets a wider view
+  useLayoutEffect(() => {
+    const rect = fieldRef.current?.getBoundingClientRect();
+    setWorldWidth(rect && rect.height > 0 ? fitWorldWidth(rect.width / rect.height) : DEFAULT_WORLD_WIDTH);
+  }, []);
+
+  const settings = useMemo(
+    () => buildSimulationSettings({ theme, difficulty: gameDifficulty, customDifficulty, ruleSet, worldWidth: worldWidth ?? DEFAULT_WORLD_WIDTH }),
+    [theme, gameDifficulty, customDifficulty, ruleSet, worldWidth]
+  );
+  const viewports = [useCanvasViewport(canvasRefs[0], settings.worldWidth), useCanvasViewport(canvasRefs[1], settings.worldWidth)];
+
+  // High-Frequency Mutable State (Bypasses React rendering)
+  const engine = useRef({
+    sides: [createSide(settings, seed), createSide(settings, seed)],
+    events: [] as SimulationEvent[]
+  });
+
+  useEffect(() => {
+    engine.current.sides = [createSide(settings, seed), createSide(settings, seed)];
+  }, [settings, seed]);
+
+  // Visual feedback only, one system per field so shakes and flashes stay on the right side
+  const particles = useMemo(
+    () => [0, 1].map(() => new ParticleSystem(THEME_DATA[theme].effects, effectsIntensity)),
+    [theme, effectsIntensity]
+  );
+
+  const [uiState, setUiState] = useState<SideUi[]>(() => engine.current.sides.map(s => readSideUi(s.sim)));
+
+  useEffect(() => {
+    audioEngine.playThemeMusic(theme);
+    return () => audioEngine.stopAll();
+  }, [theme]);
+
+  // Player 1 on the selected mode over the left field, player 2 on the arrow keys (or the right half of the lens)
+  const paddleInputs = useMemo(() => createPaddleInputs(inputMode, 2), [inputMode]);
+
+  // Both fields tick in lockstep, each on its own paddle
+  const step = () => {
+    const e = engine.current;
+    const bossesBefore = e.sides.filter(s => s.sim.boss).length;
+    e.sides.forEach((side, i) => {
+      e.events.length = 0;
+      advanceSimulation(side.sim, paddles[i], settings, side.pool, e.events);
+      for (const event of e.events) playEventFeedback(event, theme, particles[i], false);
+    });
+    // One soundtrack for both fields: boss music runs while either side is fighting one
+    const bossesAfter = e.sides.filter(s => s.sim.boss).length;
+    if (bossesBefore === 0 && bossesAfter > 0) audioEngine.playBossMusic(theme);
+    else if (bossesBefore > 0 && bossesAfter === 0) audioEngine.playBossDefeated(theme);
+
+    if (!e.sides.some(s => s.sim.isOver)) return false;
+    onFinish({
+      players: e.sides.map((side, i) => ({
+        ...pilots[i],
+        score: Math.floor(side.sim.score),
+        misses: side.sim.misses,
+        survivedMs: side.sim.elapsedMs
+      })),
+      winner: decideWinner(e.sides)
+    });
+    return true;
+  };
+
+  const render = (dt: number) => {
+    const tData = THEME_DATA[theme];
+    engine.current.sides.forEach((side, i) => {
+      const ctx = canvasRefs[i].current?.getContext('2d');
+      if (!ctx) return;
+      particles[i].update(dt);
+      applyViewport(ctx, viewports[i]);
+      const [shakeX, shakeY] = particles[i].getShakeOffset();
+      ctx.translate(shakeX, shakeY);
+      renderWorld(ctx, side.sim, paddles[i], settings, tData, pilots[i].avatar);
+      particles[i].render(ctx, settings.worldWidth, WORLD_HEIGHT);
+    });
+  };
+
+  const { pauseReason, countdown, isPaused, togglePause, paddles, handleHandUpdate, handleGesture } = usePlayLoop({
+    inputMode,
+    paddleInputs,
+    handLostTimeoutMs,
+    isReady: worldWidth !== null,
+    canvasRef: canvasRefs[0],
+    viewport: viewports[0],
+    worldWidth: settings.worldWidth,
+    step,
+    render,
+    syncUi: () => setUiState(engine.current.sides.map(s => readSideUi(s.sim)))
+  });
+
+  return (
+    <div className="relative w-full h-full flex flex-col gap-4 p-6 max-w-7xl mx-auto overflow-hidden">
+      <div className="flex items-stretch gap-4">
+        {inputMode === InputMode.VISION ? (
+          <div className="w-80 flex-shrink-0">
+            <VisionTracker onHandUpdate={handleHandUpdate} onGesture={handleGesture} config={trackingConfig} source={frameSource} regions={2} />
+          </div>
+        ) : (
+          <div className="flex-1 bg-zinc-900/60 rounded-[2rem] border border-white/5 px-6 py-4 flex items-center justify-center gap-6">
+            <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{INPUT_MODES[inputMode].icon} {pilots[0].name}: {INPUT_MODES[inputMode].label}</span>
+            <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">⌨️ {pilots[1].name}: ← →</span>
+          </div>
+        )}
+        <div className="flex-1 bg-zinc-900/60 rounded-[2rem] border border-white/5 p-4 flex items-center gap-3">
+          <button
+            onClick={togglePause}
+            className="flex-1 py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-white transition-all"
+          >
+            {pauseReason ? 'RESUME LINK' : 'SUSPEND SYNC'}
+          </button>
+          <button
+            onClick={onExit}
+            className="px-6 py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all"
+          >
+            Abort
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex gap-4">
+        {pilots.map((pilot, i) => {
+          const rival = pilots[1 - i];
+          const ui = uiState[i];
+          const paddle = paddles[i];
+          const hudState: GameState = {
+            ...ui,
+            handX: paddle.handX,
+            isHandDetected: paddle.isHandDetected,
+            boostHint: getBoostHint(inputMode, i),
+            rival: { name: rival.name, emoji: rival.avatar.emoji, score: uiState[1 - i].score, lives: uiState[1 - i].lives },
+            highScore: 0,
+            maxLives: settings.maxLives,
+            gameDifficulty,
+            inputMode,
+            theme,
+            avatar: pilot.avatar,
+            isPaused
+          };
+          return (
+            <div key={i} ref={i === 0 ? fieldRef : undefined} className="flex-1 relative bg-black rounded-[3rem] border border-white/5 overflow-hidden shadow-2xl touch-none">
+              <canvas ref={canvasRefs[i]} className="w-full h-full" />
+              <HUD state={hudState} />
+            </div>
+          );
+        })}
+
+        <PauseOverlay pauseReason={pauseReason} countdown={countdown} showGestures={inputMode === InputMode.VISION} />
+      </div>
+    </div>
+  );
+};
+
+export default VersusWorld;
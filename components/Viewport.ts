@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { WORLD_HEIGHT } from './GameSimulation';
+
+// Maps logical world coordinates onto a canvas whose backing store matches its CSS size
+// times devicePixelRatio, so the playfield stays sharp on HiDPI screens.
+export interface Viewport {
+  scale: number;      // CSS pixels per world unit
+  offsetX: number;    // CSS pixels, centres the world when aspect ratios differ
+  offsetY: number;
+  pixelRatio: number;
+}
+
+export const fitViewport = (cssWidth: number, cssHeight: number, worldWidth: number, pixelRatio: number): Viewport => {
+  const scale = Math.min(cssWidth / worldWidth, cssHeight / WORLD_HEIGHT) || 1;
+  return {
+    scale,
+    offsetX: (cssWidth - worldWidth * scale) / 2,
+    offsetY: (cssHeight - WORLD_HEIGHT * scale) / 2,
+    pixelRatio
+  };
+};
+
+// Clears the whole backing store, then leaves the context drawing in world units
+export const applyViewport = (ctx: CanvasRenderingContext2D, viewport: Viewport) => {
+  const { scale, offsetX, offsetY, pixelRatio } = viewport;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.setTransform(scale * pixelRatio, 0, 0, scale * pixelRatio, offsetX * pixelRatio, offsetY * pixelRatio);
+};
+
+// Pointer position to normalized paddle position, clamped to the playfield
+export const clientToHandX = (clientX: number, rect: { left: number }, viewport: Viewport, worldWidth: number) =>
+  Math.max(0, Math.min(1, (clientX - rect.left - viewport.offsetX) / (worldWidth * viewport.scale)));
+
+// Keeps the canvas backing store in sync with its laid-out size and the current pixel ratio
+export const useCanvasViewport = (canvasRef: { current: HTMLCanvasElement | null }, worldWidth: number): Viewport => {
+  const [viewport, setViewport] = useState<Viewport>(() => fitViewport(worldWidth, WORLD_HEIGHT, worldWidth, 1));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(width * pixelRatio));
+      canvas.height = Math.max(1, Math.round(height * pixelRatio));
+      setViewport(fitViewport(width, height, worldWidth, pixelRatio));
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    // Dragging between monitors changes devicePixelRatio without resizing the element
+    window.addEventListener('resize', resize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', resize);
+    };
+  }, [canvasRef, worldWidth]);
+
+  return viewport;
+};
@@ -1,67 +1,138 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { TrackingConfig } from '../types';
+import { TrackingConfig, FrameSourceSpec, FrameSourceKind, GestureType } from '../types';
+import { FrameStats } from './Calibration';
+import { HandReading, AnalysisResult, VisionWorkerRequest, createHandAnalyzer, ANALYSIS_WIDTH, ANALYSIS_HEIGHT } from './HandAnalyzer';
+import { FrameSource, createFrameSource, CAMERA_SOURCE } from './FrameSources';
+import { createGestureRecognizer } from './GestureRecognizer';
 
 interface VisionTrackerProps {
-  onHandUpdate: (x: number, detected: boolean) => void;
+  onHandUpdate: (x: number, detected: boolean, region: number) => void;
   config: TrackingConfig;
+  regions?: number; // Splits the mirrored image into side-by-side strips, one hand per strip (0..1 within each)
+  onFrameStats?: (stats: FrameStats) => void; // Calibration only; the stats object may be reused between frames
+  source?: FrameSourceSpec; // Live camera unless the developer menu picked something else
+  onGesture?: (gesture: GestureType, region: number) => void;
 }
 
-const VisionTracker: React.FC<VisionTrackerProps> = ({ onHandUpdate, config }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+type Pipeline = 'WORKER' | 'MAIN';
+
+const canUseVisionWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// VideoFrame wraps the decoded frame without a copy; ImageBitmap is the fallback where WebCodecs is missing
+const grabFrame = (image: CanvasImageSource): Promise<ImageBitmap | VideoFrame> =>
+  typeof VideoFrame !== 'undefined'
+    ? Promise.resolve(new VideoFrame(image, { timestamp: performance.now() * 1000 }))
+    : createImageBitmap(image, { resizeWidth: ANALYSIS_WIDTH, resizeHeight: ANALYSIS_HEIGHT });
+
+const VisionTracker: React.FC<VisionTrackerProps> = ({ onHandUpdate, config, regions = 1, onFrameStats, source = CAMERA_SOURCE, onGesture }) => {
+  const sourceRef = useRef<FrameSource | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const procCanvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'));
   const [error, setError] = useState<string | null>(null);
-  const [trackingQuality, setTrackingQuality] = useState(0);
+  const [trackingQuality, setTrackingQuality] = useState(0); // Weakest region's confidence, 0..1
+  const [pipeline, setPipeline] = useState<Pipeline>('MAIN');
 
-  // Kalman Filter: Optimized for low latency (higher Q, lower R)
-  const kalmanX = useRef({
-    x: 0.5,    
-    p: 1.0,    
-    q: 0.08,  // Faster process noise: allows quick hand snaps
-    r: 0.04    // Low measurement noise: trusts the camera more for instant response
-  });
+  // Read per frame, so a new config (e.g. mid-calibration) applies without restarting the loop
+  const configRef = useRef(config);
+  configRef.current = config;
+  // Likewise the gesture handler, which callers typically rebuild whenever their pause state changes
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
 
   useEffect(() => {
-    async function setupCamera() {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            width: { ideal: 480 }, 
-            height: { ideal: 360 }, 
-            frameRate: { ideal: 60 } // Request high frame rate hardware support
-          } 
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          await videoRef.current.play();
-        }
-      } catch (err) {
-        setError("SENSOR OFFLINE");
-      }
-    }
-    setupCamera();
+    const frameSource = createFrameSource(source);
+    sourceRef.current = frameSource;
+    setError(null);
+    frameSource.start().catch(() => {
+      setError(source.kind === FrameSourceKind.CAMERA ? 'Camera Initialization Failed' : 'Frame Source Unavailable');
+    });
 
     return () => {
-      if (videoRef.current?.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-      }
+      frameSource.stop();
+      if (sourceRef.current === frameSource) sourceRef.current = null;
     };
-  }, []);
+  }, [source]);
 
   useEffect(() => {
     let animationFrameId: number;
     const procCanvas = procCanvasRef.current;
-    procCanvas.width = 80; // Slightly higher res for better centroid accuracy
-    procCanvas.height = 60;
-    const procCtx = procCanvas.getContext('2d', { willReadFrequently: true });
+    procCanvas.width = ANALYSIS_WIDTH;
+    procCanvas.height = ANALYSIS_HEIGHT;
+    let latest: HandReading[] = [];
+    let analyzer: ReturnType<typeof createHandAnalyzer> | null = null;
+    // Runs here rather than in the analyser so both pipelines share one clock and one set of hold timers
+    const gestures = createGestureRecognizer();
+    let worker = canUseVisionWorker() ? new Worker(new URL('./VisionWorker.ts', import.meta.url), { type: 'module' }) : null;
+    // One frame in flight at a time: a slow worker drops frames instead of queueing stale ones
+    let inFlight = false;
+    setPipeline(worker ? 'WORKER' : 'MAIN');
+
+    const applyResult = (result: AnalysisResult) => {
+      latest = result.hands;
+      const now = performance.now();
+      result.hands.forEach((hand, region) => {
+        onHandUpdate(hand.x, hand.detected, region);
+        const gesture = gestures.recognize(hand, region, now);
+        if (gesture) onGestureRef.current?.(gesture, region);
+      });
+      setTrackingQuality(Math.min(...result.hands.map(h => h.confidence)));
+      if (result.stats) onFrameStats?.(result.stats);
+    };
+
+    const fallBackToMainThread = () => {
+      worker?.terminate();
+      worker = null;
+      inFlight = false;
+      setPipeline('MAIN');
+    };
+
+    if (worker) {
+      worker.onmessage = (e: MessageEvent<AnalysisResult>) => {
+        inFlight = false;
+        applyResult(e.data);
+      };
+      worker.onerror = fallBackToMainThread;
+    }
+
+    // Frame analysis on the UI thread, for browsers without workers or OffscreenCanvas
+    const analyzeOnMainThread = (image: CanvasImageSource) => {
+      const procCtx = procCanvas.getContext('2d', { willReadFrequently: true });
+      if (!procCtx) return;
+      analyzer = analyzer ?? createHandAnalyzer();
+      procCtx.save();
+      procCtx.scale(-1, 1);
+      procCtx.translate(-procCanvas.width, 0);
+      procCtx.drawImage(image, 0, 0, procCanvas.width, procCanvas.height);
+      procCtx.restore();
+      const imageData = procCtx.getImageData(0, 0, procCanvas.width, procCanvas.height);
+      applyResult(analyzer.analyze(imageData, configRef.current, regions, !!onFrameStats));
+    };
+
+    const postToWorker = async (image: CanvasImageSource) => {
+      inFlight = true;
+      let frame: ImageBitmap | VideoFrame | null = null;
+      try {
+        frame = await grabFrame(image);
+        if (!worker) {
+          frame.close();
+          return;
+        }
+        const request: VisionWorkerRequest = { frame, config: configRef.current, regions, withStats: !!onFrameStats };
+        worker.postMessage(request, [frame]);
+      } catch {
+        // A frame that can't be captured or transferred will fail the same way next time
+        frame?.close();
+        fallBackToMainThread();
+      }
+    };
 
     const processFrame = () => {
-      const video = videoRef.current;
+      const image = sourceRef.current?.frame() ?? null;
       const displayCanvas = canvasRef.current;
       
-      if (!video || !displayCanvas || video.readyState !== 4 || !procCtx) {
+      if (!image || !displayCanvas) {
         animationFrameId = requestAnimationFrame(processFrame);
         return;
       }
@@ -73,90 +144,60 @@ const VisionTracker: React.FC<VisionTrackerProps> = ({ onHandUpdate, config }) =
       displayCtx.save();
       displayCtx.scale(-1, 1);
       displayCtx.translate(-displayCanvas.width, 0);
-      displayCtx.drawImage(video, 0, 0, displayCanvas.width, displayCanvas.height);
+      displayCtx.drawImage(image, 0, 0, displayCanvas.width, displayCanvas.height);
       displayCtx.restore();
 
-      // Faster processing pass
-      procCtx.save();
-      procCtx.scale(-1, 1);
-      procCtx.translate(-procCanvas.width, 0);
-      procCtx.drawImage(video, 0, 0, procCanvas.width, procCanvas.height);
-      procCtx.restore();
-
-      const imageData = procCtx.getImageData(0, 0, procCanvas.width, procCanvas.height);
-      const data = new Uint32Array(imageData.data.buffer); // Use 32-bit view for 4x speedup
-      
-      let sumX = 0;
-      let count = 0;
-
-      // Single-pass luminance check
-      for (let i = 0; i < data.length; i++) {
-        const pixel = data[i];
-        // RGBA in little-endian is ABGR. Extract R, G, B efficiently
-        const r = pixel & 0xFF;
-        const g = (pixel >> 8) & 0xFF;
-        const b = (pixel >> 16) & 0xFF;
-        
-        // Perceptual brightness is more accurate than average
-        const brightness = (0.299 * r + 0.587 * g + 0.114 * b);
-
-        if (brightness > 180) { 
-          const x = i % procCanvas.width;
-          sumX += x;
-          count++;
-        }
+      if (worker) {
+        if (!inFlight) postToWorker(image);
+      } else {
+        analyzeOnMainThread(image);
       }
 
-      setTrackingQuality(Math.min(100, count));
-
-      if (count > 8) { 
-        const rawMeasurement = (sumX / count) / procCanvas.width;
-        
-        // Ergonomic mapping (Deadzone 10% on edges)
-        let z = (rawMeasurement - 0.1) / 0.8;
-        z = Math.max(0, Math.min(1, z));
-
-        // --- Optimized Kalman Update ---
-        const k = kalmanX.current;
-        k.p = k.p + k.q;
-        const gain = k.p / (k.p + k.r);
-        k.x = k.x + gain * (z - k.x);
-        k.p = (1 - gain) * k.p;
-
-        // Immediate callback execution (Avoids frame-stalling)
-        onHandUpdate(k.x, true);
-        
-        // HUD Feedback
-        const dx = k.x * displayCanvas.width;
+      // HUD Feedback from the latest reading, which may lag the feed by a frame in worker mode
+      latest.forEach((hand, region) => {
+        if (!hand.detected) return;
+        const dx = ((region + hand.x) / regions) * displayCanvas.width;
         displayCtx.strokeStyle = '#4ade80';
         displayCtx.lineWidth = 4;
         displayCtx.beginPath();
-        displayCtx.arc(dx, displayCanvas.height/2, 25, 0, Math.PI * 2);
+        displayCtx.arc(dx, displayCanvas.height/2, 25 / regions, 0, Math.PI * 2);
+        displayCtx.stroke();
+      });
+
+      // Split guide
+      for (let region = 1; region < regions; region++) {
+        const gx = (region / regions) * displayCanvas.width;
+        displayCtx.strokeStyle = 'rgba(255,255,255,0.3)';
+        displayCtx.lineWidth = 1;
+        displayCtx.beginPath();
+        displayCtx.moveTo(gx, 0);
+        displayCtx.lineTo(gx, displayCanvas.height);
         displayCtx.stroke();
-      } else {
-        onHandUpdate(kalmanX.current.x, false);
       }
 
       animationFrameId = requestAnimationFrame(processFrame);
     };
 
     animationFrameId = requestAnimationFrame(processFrame);
-    return () => cancelAnimationFrame(animationFrameId);
-  }, [onHandUpdate]);
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      worker?.terminate();
+      worker = null;
+    };
+  }, [onHandUpdate, onFrameStats, regions]);
 
   return (
     <div className="relative w-full h-48 rounded-[2rem] overflow-hidden border border-white/10 bg-black shadow-2xl">
-      <video ref={videoRef} autoPlay playsInline muted className="hidden" />
       <canvas ref={canvasRef} width={320} height={240} className="w-full h-full object-cover opacity-90 brightness-110" />
       
       <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent pointer-events-none p-4 flex flex-col justify-end">
         <div className="flex justify-between items-center">
           <p className="text-[8px] font-black text-white/50 uppercase tracking-widest">
-            {trackingQuality > 8 ? 'SIGNAL LOCKED' : 'CALIBRATING...'}
+            {trackingQuality > 0 ? 'SIGNAL LOCKED' : 'CALIBRATING...'} • {pipeline === 'WORKER' ? 'Worker' : 'Main Thread'}
           </p>
           <div className="flex gap-1">
              {[0, 1, 2].map(i => (
-               <div key={i} className={`w-1.5 h-1.5 rounded-full ${trackingQuality > (i*20) ? 'bg-green-400 shadow-[0_0_5px_#4ade80]' : 'bg-zinc-800'}`} />
+               <div key={i} className={`w-1.5 h-1.5 rounded-full ${trackingQuality > i / 3 ? 'bg-green-400 shadow-[0_0_5px_#4ade80]' : 'bg-zinc-800'}`} />
              ))}
           </div>
         </div>
@@ -164,7 +205,7 @@ const VisionTracker: React.FC<VisionTrackerProps> = ({ onHandUpdate, config }) =
 
       {error && (
         <div className="absolute inset-0 bg-red-950/90 backdrop-blur-md flex items-center justify-center p-6 text-center">
-          <p className="text-[10px] font-black text-white uppercase tracking-widest leading-tight">Camera Initialization Failed</p>
+          <p className="text-[10px] font-black text-white uppercase tracking-widest leading-tight">{error}</p>
         </div>
       )}
     </div>
@@ -0,0 +1,16 @@
+import { createHandAnalyzer, ANALYSIS_WIDTH, ANALYSIS_HEIGHT, VisionWorkerRequest } from './HandAnalyzer';
+
+// Dedicated vision thread: mirrors each transferred frame onto an OffscreenCanvas, analyses it
+// and posts the AnalysisResult back. Throwing here makes the tracker fall back to the main thread.
+const canvas = new OffscreenCanvas(ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+const ctx = canvas.getContext('2d', { willReadFrequently: true });
+if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+const analyzer = createHandAnalyzer();
+
+addEventListener('message', (e: MessageEvent<VisionWorkerRequest>) => {
+  const { frame, config, regions, withStats } = e.data;
+  ctx.setTransform(-1, 0, 0, 1, ANALYSIS_WIDTH, 0);
+  ctx.drawImage(frame, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+  frame.close();
+  postMessage(analyzer.analyze(ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT), config, regions, withStats));
+});
@@ -4,18 +4,27 @@ export enum GameScene {
   HOW_TO_PLAY = 'HOW_TO_PLAY',
   GAMEPLAY = 'GAMEPLAY',
   GAME_OVER = 'GAME_OVER',
-  LEADERBOARD = 'LEADERBOARD'
+  LEADERBOARD = 'LEADERBOARD',
+  REPLAY = 'REPLAY',
+  LEVEL_EDITOR = 'LEVEL_EDITOR',
+  BENCHMARK = 'BENCHMARK',
+  CALIBRATION = 'CALIBRATION',
+  DEV_TOOLS = 'DEV_TOOLS'
 }
 
 export enum InputMode {
   CURSOR = 'CURSOR',
-  VISION = 'VISION'
+  VISION = 'VISION',
+  KEYBOARD = 'KEYBOARD',
+  TOUCH = 'TOUCH',
+  GAMEPAD = 'GAMEPAD'
 }
 
 export enum GameDifficulty {
   EASY = 'EASY',
   MEDIUM = 'MEDIUM',
-  HARD = 'HARD'
+  HARD = 'HARD',
+  CUSTOM = 'CUSTOM'
 }
 
 export enum GameTheme {
@@ -27,21 +36,168 @@ export enum GameTheme {
   RETRO = 'RETRO'
 }
 
+export enum EffectsIntensity {
+  OFF = 'OFF',
+  REDUCED = 'REDUCED',
+  FULL = 'FULL'
+}
+
+// How VisionTracker decides which pixels belong to a hand
+export enum SegmentationMode {
+  BRIGHTNESS = 'BRIGHTNESS',
+  SKIN = 'SKIN',
+  MOTION = 'MOTION',
+  HYBRID = 'HYBRID'
+}
+
+// Hand poses VisionTracker reports alongside the paddle position (see GestureRecognizer)
+export enum GestureType {
+  FIST = 'FIST',               // Open palm closed into a fist and held
+  RAISE = 'RAISE',             // Hand lifted to the top of the lens and held
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT'
+}
+
+// Where VisionTracker's frames come from. Everything but CAMERA is a developer tool.
+export enum FrameSourceKind {
+  CAMERA = 'CAMERA',
+  VIDEO_FILE = 'VIDEO_FILE',
+  IMAGE_SEQUENCE = 'IMAGE_SEQUENCE',
+  SYNTHETIC = 'SYNTHETIC'
+}
+
+// Scripted motion for the synthetic source's blob
+export enum SyntheticPath {
+  SWEEP = 'SWEEP',
+  STEPS = 'STEPS',
+  ZIGZAG = 'ZIGZAG',
+  DROPOUT = 'DROPOUT'
+}
+
+export type FrameSourceSpec =
+  | { kind: FrameSourceKind.CAMERA }
+  | { kind: FrameSourceKind.VIDEO_FILE; file: File }
+  | { kind: FrameSourceKind.IMAGE_SEQUENCE; files: File[]; fps: number }
+  | { kind: FrameSourceKind.SYNTHETIC; path: SyntheticPath };
+
+export enum PlayMode {
+  SOLO = 'SOLO',
+  VERSUS = 'VERSUS', // Two split playfields on one seed, last pilot standing wins
+  COOP = 'COOP'      // Two paddles in one field sharing lives and score
+}
+
+export enum PauseReason {
+  MANUAL = 'MANUAL',
+  HIDDEN = 'HIDDEN',
+  BLUR = 'BLUR',
+  HAND_LOST = 'HAND_LOST'
+}
+
+export enum RuleSet {
+  HAZARDS_ONLY = 'HAZARDS_ONLY',
+  CLASSIC = 'CLASSIC',
+  STRICT = 'STRICT'
+}
+
 export enum ObjectType {
   GOOD = 'GOOD',
-  BAD = 'BAD'
+  BAD = 'BAD',
+  POWERUP = 'POWERUP',
+  CHARGE = 'CHARGE' // Only dropped during boss fights; each catch drains the boss
+}
+
+export enum MotionPattern {
+  STRAIGHT = 'STRAIGHT',
+  SINE = 'SINE',
+  ZIGZAG = 'ZIGZAG',
+  ACCELERATE = 'ACCELERATE',
+  HOMING = 'HOMING',
+  SPLIT = 'SPLIT'
+}
+
+// Where on the paddle a catch landed; centre catches score a precision bonus
+export enum HitZone {
+  CENTER = 'CENTER',
+  EDGE = 'EDGE'
+}
+
+export enum VolleyPattern {
+  SPREAD = 'SPREAD',
+  AIMED = 'AIMED',
+  RAIN = 'RAIN'
+}
+
+export enum PowerUpType {
+  SHIELD = 'SHIELD',
+  MAGNET = 'MAGNET',
+  SLOW_MOTION = 'SLOW_MOTION',
+  WIDE_PADDLE = 'WIDE_PADDLE',
+  EXTRA_LIFE = 'EXTRA_LIFE'
+}
+
+export interface ActiveEffect {
+  type: PowerUpType;
+  remainingMs: number;
+  durationMs: number;
 }
 
 export interface GameObject {
-  id: string;
+  id: number;
   x: number;
   y: number;
+  prevX: number; // Position at the start of the current tick, for swept collision
+  prevY: number;
   radius: number;
   speed: number;
   type: ObjectType;
   variant: string;
+  powerUp?: PowerUpType;
+  motion?: MotionPattern;
   horizontalVel?: number;
   phase?: number;
+  owner?: number; // Co-op: only this player's paddle can catch it (0 = player 1, 1 = player 2)
+}
+
+export interface Boss {
+  level: number; // Whole difficulty level that summoned it
+  name: string;
+  variant: string;
+  x: number;
+  y: number;
+  direction: number;
+  health: number;
+  maxHealth: number;
+  volleyTimer: number;
+  chargeTimer: number;
+  volleys: number;
+  hitFlashMs: number;
+}
+
+// Knobs behind each difficulty. The built-in three are fixed; CUSTOM runs carry their own.
+export interface DifficultyTuning {
+  initialLives: number;
+  hazardPenalty: number;
+  spawnRateBase: number; // ms between endless spawns before the score speeds it up
+  minSpeed: number;
+  maxSpeed: number;
+  hazardChance: number;  // Share of endless spawns that are hazards
+  gravity: number;       // Multiplies the theme's own gravity
+  rampCurve: number;     // Exponent on the difficulty ramp: <1 front-loads it, >1 back-loads it
+}
+
+export interface CustomDifficulty extends DifficultyTuning {
+  name: string;
+}
+
+// One move of the adaptive controller, kept for later review
+export interface AdaptiveAdjustment {
+  atMs: number;
+  from: number;
+  to: number;
+  performance: number; // 0..1 blend that triggered the move
+  catchRate: number;
+  hazards: number;     // Recent (decayed) counts at evaluation time
+  nearMisses: number;
 }
 
 export interface PlayerAvatar {
@@ -59,6 +215,108 @@ export interface LeaderboardEntry {
   theme: GameTheme;
   difficulty: GameDifficulty;
   date: number;
+  seed?: number;
+  ruleSet?: RuleSet; // Absent on entries logged before rule sets existed (HAZARDS_ONLY)
+  levelId?: string;
+  customPreset?: string; // Name of the custom tuning used; these runs get their own board
+  adaptive?: boolean;
+  partnerName?: string; // Co-op team entries hold both pilots; these get their own board
+  partnerAvatarId?: string;
+}
+
+// Level script JSON format. Drops are timed from the start of their wave;
+// each wave begins once the previous one's last drop plus its rest period has passed.
+export interface DropScript {
+  atMs: number;
+  kind: ObjectType;
+  lane?: number; // 0..LEVEL_LANES-1, or
+  x?: number;    // 0..1 across the playfield
+  speed?: number;
+  pattern?: MotionPattern;
+  powerUp?: PowerUpType; // Required when kind is POWERUP
+}
+
+export interface WaveScript {
+  name?: string;
+  restAfterMs?: number;
+  drops: DropScript[];
+}
+
+export interface LevelScript {
+  id: string;
+  name: string;
+  description?: string;
+  theme?: GameTheme; // Locks the environment when set
+  lives?: number;
+  waves: WaveScript[];
+}
+
+// Everything besides the seed that shapes a run's simulation
+export interface RunConfig {
+  theme: GameTheme;
+  difficulty: GameDifficulty;
+  ruleSet: RuleSet;
+  level?: LevelScript;
+  worldWidth?: number; // Logical playfield width; absent means the classic 4:3 field
+  customDifficulty?: CustomDifficulty; // Required when difficulty is CUSTOM
+  adaptive?: boolean; // Performance-driven difficulty instead of the fixed ramp (endless only)
+  coop?: boolean; // Two paddles; inputs carry the partner's too
+}
+
+export interface ReplayLog {
+  id: string;
+  version: number;
+  seed: number;
+  theme: GameTheme;
+  difficulty: GameDifficulty;
+  ruleSet: RuleSet;
+  level?: LevelScript;
+  worldWidth?: number;
+  customDifficulty?: CustomDifficulty;
+  adaptive?: boolean;
+  coop?: boolean;
+  avatarId: string;
+  pilotName: string;
+  partnerAvatarId?: string; // Co-op only
+  partnerName?: string;
+  score: number;
+  ticks: number;
+  date: number;
+  inputs: number[]; // Run-length encoded packed handX / isHandDetected per tick
+}
+
+export type RunRecording = Pick<ReplayLog, 'seed' | 'ticks' | 'inputs' | 'worldWidth'> & { adaptiveLog?: AdaptiveAdjustment[] };
+
+export interface Pilot {
+  name: string;
+  avatar: PlayerAvatar;
+}
+
+export interface VersusPlayerResult extends Pilot {
+  score: number;
+  misses: number;
+  survivedMs: number;
+}
+
+export interface VersusResult {
+  players: VersusPlayerResult[];
+  winner: number | null; // Index into players; null on a draw
+}
+
+// A finished adaptive run's controller history
+export interface AdaptiveSession {
+  id: string;
+  date: number;
+  pilotName: string;
+  theme: GameTheme;
+  score: number;
+  durationMs: number;
+  adjustments: AdaptiveAdjustment[];
+}
+
+export interface DailyChallenge extends RunConfig {
+  dateKey: string;
+  seed: number;
 }
 
 export interface GameState {
@@ -70,17 +328,30 @@ export interface GameState {
   combo: number;
   difficulty: number;
   gameDifficulty: GameDifficulty;
-  objects: GameObject[];
   handX: number;
   isHandDetected: boolean;
   inputMode: InputMode;
   theme: GameTheme;
   avatar: PlayerAvatar;
-  levelStartTime: number;
+  partnerAvatar?: PlayerAvatar; // Co-op
   currentTime: number;
+  ghostDelta?: number | null;
+  activeEffects?: ActiveEffect[];
+  boost?: number; // Boost meter, 0..1
+  boostHint?: string; // How to fire it once full
+  misses?: number;
+  wave?: { current: number; total: number };
+  boss?: Pick<Boss, 'name' | 'variant' | 'health' | 'maxHealth'> | null;
+  adaptive?: { difficulty: number; performance: number; trend: -1 | 0 | 1 } | null;
+  rival?: { name: string; emoji: string; score: number; lives: number } | null; // Versus: the other pilot
 }
 
 export interface TrackingConfig {
-  sensitivity: number;
-  threshold: number;
+  segmentation: SegmentationMode;
+  sensitivity: number;  // Filter responsiveness; 1 is the stock Kalman tuning
+  threshold: number;    // Brightness cutoff, 0..255 (BRIGHTNESS segmentation only)
+  minPixels: number;    // Bright pixels needed before a region counts as a hand
+  reachLeft: number;    // Raw hand position (0..1 across the lens) that maps to the left wall
+  reachRight: number;   // ...and to the right wall
+  calibratedAt?: number;
 }